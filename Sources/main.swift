@@ -219,6 +219,8 @@ struct TutorialStep: Identifiable {
     let text: String
     let boundingBox: CGRect
     let description: String
+    // サーバーが枠に適用した学習済み補正（検証時にそのまま送り返す）
+    var learnedCorrection: [String: Any]? = nil
 }
 
 // MARK: - App State
@@ -297,7 +299,8 @@ class AppState: ObservableObject {
                         return TutorialStep(
                             text: step.text,
                             boundingBox: adaptiveRect,
-                            description: step.description
+                            description: step.description,
+                            learnedCorrection: step.learnedCorrection
                         )
                     }
                     
@@ -1347,7 +1350,8 @@ class MCPService {
                         return TutorialStep(
                             text: text,
                             boundingBox: CGRect(x: x, y: y, width: width, height: height),
-                            description: description
+                            description: description,
+                            learnedCorrection: stepDict["learned_correction"] as? [String: Any]
                         )
                     }
                     
@@ -1442,7 +1446,8 @@ class MCPService {
                         return TutorialStep(
                             text: text,
                             boundingBox: CGRect(x: x, y: y, width: width, height: height),
-                            description: description
+                            description: description,
+                            learnedCorrection: stepDict["learned_correction"] as? [String: Any]
                         )
                     }
                     
@@ -1499,7 +1504,7 @@ class MCPService {
         
         do {
             // 元の予測結果を構造化
-            let originalPrediction = [
+            var originalPrediction = [
                 "text": originalStep.text,
                 "x": originalStep.boundingBox.origin.x,
                 "y": originalStep.boundingBox.origin.y,
@@ -1507,6 +1512,10 @@ class MCPService {
                 "height": originalStep.boundingBox.size.height,
                 "description": originalStep.description
             ] as [String: Any]
+            // 補正前の予測に対するずれとして学習させるため、適用済みの補正も渡す
+            if let learnedCorrection = originalStep.learnedCorrection {
+                originalPrediction["learned_correction"] = learnedCorrection
+            }
             
             print("🔍 校正対象:", originalPrediction)
             
@@ -1595,48 +1604,17 @@ class MCPService {
     }
     
     private func convertImageToBase64(_ image: NSImage) -> String? {
+        // 圧縮・縮小はMCPサーバー側（sharp）で行うため、ロスレスのPNGでそのまま送る
         guard let tiffData = image.tiffRepresentation,
-              let bitmap = NSBitmapImageRep(data: tiffData) else {
+              let bitmap = NSBitmapImageRep(data: tiffData),
+              let pngData = bitmap.representation(using: .png, properties: [:]) else {
             print("❌ 画像データの変換に失敗")
             return nil
         }
         
-        let maxSizeBytes = 4 * 1024 * 1024 // 4MB制限（5MBより余裕を持たせる）
-        var compressionFactor: Float = 0.8
-        var jpegData: Data?
-        
-        // サイズとクオリティを調整しながら圧縮
-        repeat {
-            jpegData = bitmap.representation(using: .jpeg, properties: [.compressionFactor: compressionFactor])
-            
-            if let data = jpegData {
-                let sizeInMB = Double(data.count) / (1024 * 1024)
-                print("🔄 Swift圧縮テスト - 品質: \(String(format: "%.2f", compressionFactor)), サイズ: \(String(format: "%.2f", sizeInMB))MB")
-                
-                if data.count <= maxSizeBytes {
-                    print("✅ Swift圧縮完了 - 最終品質: \(String(format: "%.2f", compressionFactor))")
-                    return data.base64EncodedString()
-                }
-            }
-            
-            compressionFactor -= 0.1
-            
-        } while compressionFactor > 0.1 && jpegData != nil
-        
-        // それでも大きい場合は画像サイズを縮小
-        print("🔄 画像サイズを縮小して再試行...")
-        let scaleFactor: CGFloat = 0.7
-        let newSize = NSSize(
-            width: image.size.width * scaleFactor,
-            height: image.size.height * scaleFactor
-        )
-        
-        if let resizedImage = resizeImage(image, to: newSize) {
-            return convertImageToBase64(resizedImage) // 再帰的に呼び出し
-        }
-        
-        print("❌ 画像圧縮に失敗")
-        return nil
+        let sizeInMB = Double(pngData.count) / (1024 * 1024)
+        print("✅ PNG変換完了 - サイズ: \(String(format: "%.2f", sizeInMB))MB")
+        return pngData.base64EncodedString()
     }
     
     private func saveDebugImage(_ image: NSImage, prefix: String = "swift_capture") {
@@ -1675,14 +1653,6 @@ class MCPService {
         }
     }
     
-    private func resizeImage(_ image: NSImage, to newSize: NSSize) -> NSImage? {
-        let newImage = NSImage(size: newSize)
-        newImage.lockFocus()
-        image.draw(in: NSRect(origin: .zero, size: newSize))
-        newImage.unlockFocus()
-        return newImage
-    }
-    
     private func callMCPTool(toolName: String, arguments: [String: Any]) async throws -> String {
         let process = Process()
         process.executableURL = URL(fileURLWithPath: "/usr/bin/env")
@@ -0,0 +1,269 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+import { NormalizedImage } from "./imageProcessing.js";
+
+export interface AnalysisCacheOptions {
+  enabled: boolean;
+  ttlMs: number;
+  maxEntries: number;
+  tolerance: number; // 知覚ハッシュの異なるビット数がこれ以下なら同じ画面とみなす
+  filePath: string | null; // 指定時はディスクにも保存する
+}
+
+interface CacheEntry {
+  variant: string; // 質問と画像以外の引数のハッシュ
+  hash: string; // 正規化画像の知覚ハッシュ（16進）
+  createdAt: number;
+  lastUsedAt: number;
+  payload: Record<string, unknown>; // 変換済みの analyze_screenshot の結果（学習済み補正・枠の点検の前）
+}
+
+interface CacheFile {
+  version: 1;
+  entries: CacheEntry[];
+}
+
+export interface CacheHit {
+  payload: Record<string, unknown>;
+  ageMs: number;
+  distance: number;
+}
+
+export const DEFAULT_ANALYSIS_CACHE_OPTIONS: AnalysisCacheOptions = {
+  enabled: true,
+  ttlMs: 5 * 60 * 1000,
+  maxEntries: 100,
+  tolerance: 8,
+  filePath: null,
+};
+
+// 差分ハッシュの大きさ（HASH_SIZE x HASH_SIZE ビット）。小さなUIの変化も拾えるよう細かめにする
+const HASH_SIZE = 32;
+
+// 結果に影響しない引数（学習済み補正と枠の点検はキャッシュから返すときにやり直す）
+const NON_VARIANT_ARGS = [
+  "image_data",
+  "deadline_ms",
+  "use_cache",
+  "apply_learned_corrections",
+  "geometry_checks",
+];
+
+function parseNonNegative(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value !== undefined &&
+    value !== "" &&
+    Number.isFinite(parsed) &&
+    parsed >= 0
+    ? parsed
+    : fallback;
+}
+
+// ANALYSIS_CACHE=off で無効化、ANALYSIS_CACHE_PATH を指定するとディスクにも保存する
+export function loadAnalysisCacheOptions(
+  env: NodeJS.ProcessEnv = process.env
+): AnalysisCacheOptions {
+  const defaults = DEFAULT_ANALYSIS_CACHE_OPTIONS;
+  return {
+    enabled: env.ANALYSIS_CACHE !== "off",
+    ttlMs: parseNonNegative(env.ANALYSIS_CACHE_TTL_MS, defaults.ttlMs),
+    maxEntries: parseNonNegative(
+      env.ANALYSIS_CACHE_MAX_ENTRIES,
+      defaults.maxEntries
+    ),
+    tolerance: parseNonNegative(
+      env.ANALYSIS_CACHE_TOLERANCE,
+      defaults.tolerance
+    ),
+    filePath: env.ANALYSIS_CACHE_PATH || null,
+  };
+}
+
+// 縮小したグレースケール画像で隣り合う画素の明暗を比べる差分ハッシュ（dHash）
+export async function perceptualHash(image: NormalizedImage): Promise<string> {
+  const pixels = await sharp(Buffer.from(image.data, "base64"))
+    .resize(HASH_SIZE + 1, HASH_SIZE, { fit: "fill" })
+    .greyscale()
+    .raw()
+    .toBuffer();
+  const bits = Buffer.alloc((HASH_SIZE * HASH_SIZE) / 8);
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      const index = y * (HASH_SIZE + 1) + x;
+      if (pixels[index] < pixels[index + 1]) {
+        const bit = y * HASH_SIZE + x;
+        bits[bit >> 3] |= 1 << (bit & 7);
+      }
+    }
+  }
+  return bits.toString("hex");
+}
+
+export function hammingDistance(a: string, b: string): number {
+  const x = Buffer.from(a, "hex");
+  const y = Buffer.from(b, "hex");
+  if (x.length !== y.length) {
+    return Infinity;
+  }
+  let distance = 0;
+  for (let i = 0; i < x.length; i++) {
+    let byte = x[i] ^ y[i];
+    while (byte) {
+      distance += byte & 1;
+      byte >>= 1;
+    }
+  }
+  return distance;
+}
+
+// 質問・画面ジオメトリ・解析オプションなど、画像以外で結果を左右する引数をまとめる
+export function cacheVariant(
+  args: Record<string, unknown>,
+  image: Pick<NormalizedImage, "width" | "height">
+): string {
+  const relevant = Object.fromEntries(
+    Object.entries(args)
+      .filter(([key]) => !NON_VARIANT_ARGS.includes(key))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+  return createHash("sha256")
+    .update(JSON.stringify({ ...relevant, image: [image.width, image.height] }))
+    .digest("hex");
+}
+
+// 同じ質問を変わらない画面で繰り返したときに、モデルを呼ばずに前回の結果を返す
+export class AnalysisCache {
+  private entries: CacheEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private options: AnalysisCacheOptions) {}
+
+  get enabled(): boolean {
+    return this.options.enabled && this.options.maxEntries > 0;
+  }
+
+  async lookup(variant: string, hash: string): Promise<CacheHit | null> {
+    if (!this.enabled) {
+      return null;
+    }
+    await this.load();
+    const now = Date.now();
+    this.evictExpired(now);
+
+    let best: { entry: CacheEntry; distance: number } | null = null;
+    for (const entry of this.entries) {
+      if (entry.variant !== variant) {
+        continue;
+      }
+      const distance = hammingDistance(entry.hash, hash);
+      if (
+        distance <= this.options.tolerance &&
+        (!best || distance < best.distance)
+      ) {
+        best = { entry, distance };
+      }
+    }
+    if (!best) {
+      return null;
+    }
+
+    best.entry.lastUsedAt = now;
+    return {
+      payload: best.entry.payload,
+      ageMs: now - best.entry.createdAt,
+      distance: best.distance,
+    };
+  }
+
+  async store(
+    variant: string,
+    hash: string,
+    payload: Record<string, unknown>
+  ): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+    await this.load();
+    const now = Date.now();
+    this.entries = this.entries.filter(
+      (entry) => !(entry.variant === variant && entry.hash === hash)
+    );
+    this.entries.push({
+      variant,
+      hash,
+      createdAt: now,
+      lastUsedAt: now,
+      payload,
+    });
+    this.evictExpired(now);
+    // 上限を超えたら最後に使われたのが古いものから捨てる
+    if (this.entries.length > this.options.maxEntries) {
+      this.entries = this.entries
+        .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+        .slice(0, this.options.maxEntries);
+    }
+    await this.save();
+  }
+
+  async clear(): Promise<number> {
+    await this.load();
+    const removed = this.entries.length;
+    this.entries = [];
+    await this.save();
+    return removed;
+  }
+
+  private evictExpired(now: number) {
+    this.entries = this.entries.filter(
+      (entry) => now - entry.createdAt <= this.options.ttlMs
+    );
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+    }
+    return this.loaded;
+  }
+
+  private async readFile() {
+    if (!this.options.filePath) {
+      return;
+    }
+    try {
+      const content: CacheFile = JSON.parse(
+        await fs.readFile(this.options.filePath, "utf-8")
+      );
+      this.entries = content.entries ?? [];
+      this.evictExpired(Date.now());
+      console.error(
+        `🗃️ 解析キャッシュを読み込み: ${this.entries.length}件 (${this.options.filePath})`
+      );
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        console.error("⚠️ 解析キャッシュの読み込みに失敗:", error);
+      }
+    }
+  }
+
+  // 書き込みは直列化し、一時ファイルからのrenameで壊れたファイルを残さない
+  private save(): Promise<void> {
+    const filePath = this.options.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    const content: CacheFile = { version: 1, entries: this.entries };
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const temporary = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(temporary, JSON.stringify(content));
+        await fs.rename(temporary, filePath);
+      });
+    return this.writing;
+  }
+}
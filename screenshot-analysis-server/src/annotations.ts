@@ -0,0 +1,85 @@
+import { Rect } from "./coordinateMapping.js";
+import { Annotation, TutorialStep } from "./types.js";
+
+// これより小さい要素（論理ポイント）は枠だけでは見落としやすいので十字線を添える
+const TINY_TARGET_SIZE = 16;
+
+function center(rect: Rect) {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+// モデルが省略しがちな注釈を補う（ドラッグ経路の矢印、極小要素の十字線）
+export function supplementAnnotations(
+  step: Pick<TutorialStep, "x" | "y" | "width" | "height" | "action">,
+  annotations: Annotation[]
+): Annotation[] {
+  const supplemented = [...annotations];
+
+  const { drag_to } = step.action;
+  if (
+    step.action.kind === "drag" &&
+    drag_to &&
+    !annotations.some((annotation) => annotation.type === "arrow")
+  ) {
+    supplemented.push({
+      type: "arrow",
+      from: center(step),
+      to: center(drag_to),
+    });
+  }
+
+  const isTiny =
+    Math.min(step.width, step.height) < TINY_TARGET_SIZE &&
+    !annotations.some(
+      (annotation) =>
+        annotation.type === "point" || annotation.type === "circle"
+    );
+  if (isTiny) {
+    supplemented.push({ type: "point", at: center(step), style: "crosshair" });
+  }
+
+  return supplemented;
+}
+
+// 枠を動かしたときに、要素に付随する注釈も同じだけ動かす（矢印の行き先やドロップ先は動かさない）
+// 枠の大きさが変わった場合は、枠の中心からの距離・円の半径・スポットライトの大きさも同じ比率で変える
+export function relocateAnnotations(
+  annotations: Annotation[],
+  from: Rect,
+  to: Rect
+): Annotation[] {
+  const before = center(from);
+  const after = center(to);
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const move = (point: { x: number; y: number }) => ({
+    x: after.x + (point.x - before.x) * scaleX,
+    y: after.y + (point.y - before.y) * scaleY,
+  });
+
+  return annotations.map((annotation) => {
+    switch (annotation.type) {
+      case "point":
+        return { ...annotation, at: move(annotation.at) };
+      case "circle":
+        return {
+          ...annotation,
+          center: move(annotation.center),
+          radius: (annotation.radius * (scaleX + scaleY)) / 2,
+        };
+      case "arrow":
+        return { ...annotation, from: move(annotation.from) };
+      case "spotlight":
+        return {
+          ...annotation,
+          rect: {
+            ...move(annotation.rect),
+            width: annotation.rect.width * scaleX,
+            height: annotation.rect.height * scaleY,
+          },
+        };
+      case "callout":
+        return { ...annotation, anchor: move(annotation.anchor) };
+    }
+  });
+}
@@ -0,0 +1,435 @@
+import { CancelledError, ProgressListener, sleep } from "./progress.js";
+import {
+  VisionProvider,
+  VisionRequest,
+  VisionResponse,
+} from "./providers/index.js";
+
+export type ApiErrorCode =
+  | "rate_limited"
+  | "overloaded"
+  | "server_error"
+  | "timeout"
+  | "network_error"
+  | "deadline_exceeded"
+  | "circuit_open"
+  | "budget_exceeded"
+  | "authentication_error"
+  | "invalid_request"
+  | "unknown_error";
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly errorCode: ApiErrorCode,
+    readonly retrySuggested: boolean,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  requestTimeoutMs: number; // 1回の呼び出しのタイムアウト
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // 連続失敗（5xx/529）でオープンする回数
+  cooldownMs: number; // オープン後、試行を再開するまでの時間
+}
+
+// 呼び出しごとの使用量の記録と予算の確認（UsageTracker.meter が作る）
+export interface UsageMeter {
+  reserve(): Promise<() => void>; // 予算の確認と見込み額の確保（返り値で解放する）
+  record(
+    request: VisionRequest,
+    response: VisionResponse,
+    provider: string,
+    latencyMs: number
+  ): Promise<unknown>;
+}
+
+export interface CallOptions {
+  deadlineAt?: number; // 全体の締め切り（エポックミリ秒）
+  signal?: AbortSignal;
+  progress?: ProgressListener;
+  usage?: UsageMeter;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  requestTimeoutMs: 30000,
+};
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+};
+
+const RETRYABLE_CODES: ApiErrorCode[] = [
+  "rate_limited",
+  "overloaded",
+  "server_error",
+  "timeout",
+  "network_error",
+];
+
+// Retry-After（秒またはHTTP日付）とanthropicのレート制限リセット時刻から待機時間を求める
+export function parseRetryAfter(
+  headers: Record<string, unknown> | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const candidates: number[] = [];
+  const retryAfter = headers["retry-after"];
+  if (typeof retryAfter === "string" || typeof retryAfter === "number") {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      candidates.push(seconds * 1000);
+    } else {
+      const date = Date.parse(String(retryAfter));
+      if (!Number.isNaN(date)) {
+        candidates.push(date - now);
+      }
+    }
+  }
+
+  for (const name of [
+    "anthropic-ratelimit-requests-reset",
+    "anthropic-ratelimit-tokens-reset",
+    "anthropic-ratelimit-input-tokens-reset",
+    "anthropic-ratelimit-output-tokens-reset",
+  ]) {
+    const value = headers[name];
+    const remaining = headers[name.replace(/-reset$/, "-remaining")];
+    // 残量がある制限のリセット時刻は待つ必要がない
+    if (typeof value !== "string" || Number(remaining) > 0) {
+      continue;
+    }
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+      candidates.push(date - now);
+    }
+  }
+
+  const positive = candidates.filter((ms) => ms > 0);
+  return positive.length > 0 ? Math.max(...positive) : undefined;
+}
+
+// axiosのエラーを統一されたApiErrorに変換する
+export function classifyError(error: any): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  const status: number | undefined = error?.response?.status;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (!status) {
+    if (error?.code === "ECONNABORTED" || error?.code === "ETIMEDOUT") {
+      return new ApiError(`タイムアウトしました: ${message}`, "timeout", true);
+    }
+    return new ApiError(
+      `ネットワークエラー: ${message}`,
+      "network_error",
+      true
+    );
+  }
+
+  const retryAfterMs = parseRetryAfter(error.response?.headers);
+
+  if (status === 429) {
+    return new ApiError(
+      "APIのレート制限に達しました",
+      "rate_limited",
+      true,
+      status,
+      retryAfterMs
+    );
+  }
+  if (status === 529) {
+    return new ApiError(
+      "モデルAPIサーバーが一時的に過負荷状態です。しばらく待ってから再試行してください。",
+      "overloaded",
+      true,
+      status,
+      retryAfterMs
+    );
+  }
+  if (status >= 500) {
+    return new ApiError(
+      `モデルAPIのサーバーエラー (${status})`,
+      "server_error",
+      true,
+      status,
+      retryAfterMs
+    );
+  }
+  if (status === 401 || status === 403) {
+    return new ApiError(
+      "APIキーが無効か、権限がありません",
+      "authentication_error",
+      false,
+      status
+    );
+  }
+  if (status === 400 || status === 404 || status === 413 || status === 422) {
+    return new ApiError(
+      `リクエストが不正です (${status}): ${message}`,
+      "invalid_request",
+      false,
+      status
+    );
+  }
+  return new ApiError(
+    `モデルAPI呼び出しに失敗しました (${status}): ${message}`,
+    "unknown_error",
+    false,
+    status
+  );
+}
+
+// 連続したサーバー側の失敗で呼び出しを一時停止する
+class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false; // ハーフオープン中の試行が結果待ちか
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  assertClosed(now: number = Date.now()) {
+    if (this.openedAt === null) {
+      return;
+    }
+    const remaining = this.openedAt + this.options.cooldownMs - now;
+    if (remaining > 0) {
+      throw new ApiError(
+        `モデルAPIの障害が続いているため呼び出しを停止しています（約${Math.ceil(
+          remaining / 1000
+        )}秒後に再開）`,
+        "circuit_open",
+        true,
+        undefined,
+        remaining
+      );
+    }
+    // クールダウン後はハーフオープンとして1回だけ試行させ、結果が出るまで他の呼び出しは止める
+    if (this.trialInFlight) {
+      throw new ApiError(
+        "モデルAPIの復旧を確認中のため呼び出しを停止しています",
+        "circuit_open",
+        true
+      );
+    }
+    this.trialInFlight = true;
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  // 結果が出ないまま終わった試行（キャンセル）は、次の呼び出しに試行を譲る
+  releaseTrial() {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: ApiError, now: number = Date.now()) {
+    this.trialInFlight = false;
+    if (
+      error.errorCode !== "overloaded" &&
+      error.errorCode !== "server_error"
+    ) {
+      return;
+    }
+    this.consecutiveFailures++;
+    if (
+      this.openedAt !== null ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      if (this.openedAt === null) {
+        console.error(
+          `🚧 サーキットブレーカー作動: ${this.consecutiveFailures}回連続でサーバーエラー`
+        );
+      }
+      this.openedAt = now;
+    }
+  }
+}
+
+// 全ツール共通のモデルAPI呼び出し層（リトライ・バックオフ・サーキットブレーカー・締め切り）
+export class ResilientApiClient {
+  private retryPolicy: RetryPolicy;
+  private breaker: CircuitBreaker;
+
+  constructor(
+    private provider: VisionProvider,
+    retryPolicy: Partial<RetryPolicy> = {},
+    breakerOptions: Partial<CircuitBreakerOptions> = {}
+  ) {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    this.breaker = new CircuitBreaker({
+      ...DEFAULT_CIRCUIT_BREAKER,
+      ...breakerOptions,
+    });
+  }
+
+  async complete(
+    request: VisionRequest,
+    options: CallOptions = {}
+  ): Promise<VisionResponse> {
+    const { maxAttempts } = this.retryPolicy;
+    let lastError: ApiError | null = null;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (options.signal?.aborted) {
+        throw new CancelledError();
+      }
+      const release = (await options.usage?.reserve()) ?? (() => undefined);
+      // 締め切りを先に確かめる（ハーフオープンの試行枠を取ったまま抜けないように）
+      const remaining = this.remainingTime(options);
+      try {
+        if (remaining !== undefined && remaining <= 0) {
+          throw this.deadlineError(lastError);
+        }
+        this.breaker.assertClosed();
+      } catch (error) {
+        release();
+        throw error;
+      }
+
+      try {
+        console.error(
+          `🔄 モデルAPI呼び出し試行 ${attempt + 1}/${maxAttempts} (${
+            this.provider.name
+          })`
+        );
+        options.progress?.(
+          "model_request",
+          `モデルAPIにリクエスト中 (${attempt + 1}/${maxAttempts})`
+        );
+        const startedAt = Date.now();
+        const response = await this.provider.complete({
+          ...request,
+          signal: options.signal,
+          timeoutMs: Math.min(
+            request.timeoutMs ?? this.retryPolicy.requestTimeoutMs,
+            remaining ?? Infinity
+          ),
+        });
+        this.breaker.recordSuccess();
+        console.error("✅ モデルAPI呼び出し成功");
+        await options.usage?.record(
+          request,
+          response,
+          this.provider.name,
+          Date.now() - startedAt
+        );
+        return response;
+      } catch (error) {
+        if (options.signal?.aborted) {
+          this.breaker.releaseTrial();
+          throw new CancelledError();
+        }
+        lastError = classifyError(error);
+        this.breaker.recordFailure(lastError);
+
+        console.error(
+          `❌ モデルAPI呼び出し失敗 (試行 ${attempt + 1}): ${
+            lastError.status ?? lastError.errorCode
+          }`
+        );
+
+        if (
+          !RETRYABLE_CODES.includes(lastError.errorCode) ||
+          attempt === maxAttempts - 1
+        ) {
+          console.error(
+            "🚫 リトライ不可能なエラーまたは最大試行回数に達しました"
+          );
+          break;
+        }
+        // 長い Retry-After はサーバー内で待たず、retry_after_ms を付けて呼び出し元に返す
+        if (
+          lastError.retryAfterMs !== undefined &&
+          lastError.retryAfterMs > this.retryPolicy.maxDelayMs
+        ) {
+          console.error(
+            `🚫 Retry-After (${Math.ceil(
+              lastError.retryAfterMs / 1000
+            )}秒) が待機の上限を超えるためリトライしません`
+          );
+          break;
+        }
+
+        const delay = this.backoffDelay(attempt, lastError.retryAfterMs);
+        const remainingAfterDelay = this.remainingTime(options);
+        if (remainingAfterDelay !== undefined && delay >= remainingAfterDelay) {
+          throw this.deadlineError(lastError);
+        }
+
+        const delaySeconds = (delay / 1000).toFixed(1);
+        options.progress?.(
+          "retry",
+          `${lastError.errorCode}: ${delaySeconds}秒後にリトライします (${
+            attempt + 2
+          }/${maxAttempts})`
+        );
+        await sleep(delay, options.signal);
+      } finally {
+        release();
+      }
+    }
+
+    throw (
+      lastError ??
+      new ApiError("モデルAPI呼び出しに失敗しました", "unknown_error", false)
+    );
+  }
+
+  // 指数バックオフ + フルジッター。Retry-Afterがあればそれ以上待つ（maxDelayMs が上限）
+  private backoffDelay(attempt: number, retryAfterMs?: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+    if (retryAfterMs !== undefined) {
+      return Math.min(maxDelayMs, retryAfterMs + Math.random() * baseDelayMs);
+    }
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.max(Math.random() * exponential, baseDelayMs / 2);
+  }
+
+  private remainingTime(options: CallOptions): number | undefined {
+    return options.deadlineAt === undefined
+      ? undefined
+      : options.deadlineAt - Date.now();
+  }
+
+  private deadlineError(lastError: ApiError | null): ApiError {
+    return new ApiError(
+      lastError
+        ? `締め切りまでに完了できませんでした（最後のエラー: ${lastError.message}）`
+        : "締め切りまでに完了できませんでした",
+      "deadline_exceeded",
+      true,
+      lastError?.status
+    );
+  }
+}
+
+// ツール引数の deadline_ms を絶対時刻に変換する
+export function deadlineFromArgs(args: any): CallOptions {
+  const deadlineMs = Number(args?.deadline_ms);
+  return Number.isFinite(deadlineMs) && deadlineMs > 0
+    ? { deadlineAt: Date.now() + deadlineMs }
+    : {};
+}
@@ -0,0 +1,276 @@
+#!/usr/bin/env node
+
+// 位置特定精度のベンチマーク
+//   npm run benchmark -- <ケースのディレクトリ> [--config 設定.json] [--out 出力先] [--verbose]
+// ラベル付きスクリーンショットをMCPサーバーの analyze_screenshot に通し、正解の枠と比べて採点する
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  CaseResult,
+  ConfigReport,
+  failedCase,
+  GroundTruthBox,
+  renderMarkdownReport,
+  scoreCase,
+  summarize,
+} from "./evaluation.js";
+
+// ケースファイル（画像と同じディレクトリに置くJSON）
+interface BenchmarkCase {
+  name: string;
+  imagePath: string;
+  question: string;
+  targets: GroundTruthBox[];
+  args: Record<string, unknown>; // 画面ジオメトリなど analyze_screenshot にそのまま渡す引数
+}
+
+// 比較する設定。env はサーバープロセスの環境変数、args はツール引数に上書きする
+interface BenchmarkConfig {
+  name: string;
+  env?: Record<string, string>;
+  args?: Record<string, unknown>;
+  command?: string[]; // 別のビルドのサーバーと比べる場合の起動コマンド
+}
+
+// 前回の実行や検証の結果が混ざらないよう、キャッシュと学習済み補正は使わない（設定で上書き可）
+const DEFAULT_SERVER_ENV: Record<string, string> = {
+  LEARNED_CORRECTIONS_PATH: "off",
+};
+
+const DEFAULT_CASE_ARGS: Record<string, unknown> = {
+  apply_learned_corrections: false,
+  use_cache: false,
+};
+
+interface CliOptions {
+  casesDir: string;
+  configPaths: string[];
+  out: string;
+  verbose: boolean;
+}
+
+const DEFAULT_CONFIG: BenchmarkConfig = { name: "default" };
+
+const CASE_FIELDS = ["image", "question", "targets"];
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    casesDir: "",
+    configPaths: [],
+    out: "benchmark-report",
+    verbose: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--config") {
+      options.configPaths.push(argv[++i]);
+    } else if (arg === "--out") {
+      options.out = argv[++i];
+    } else if (arg === "--verbose") {
+      options.verbose = true;
+    } else if (!options.casesDir) {
+      options.casesDir = arg;
+    } else {
+      throw new Error(`不明な引数: ${arg}`);
+    }
+  }
+  if (!options.casesDir) {
+    throw new Error(
+      "使い方: benchmark <ケースのディレクトリ> [--config 設定.json]... [--out 出力先] [--verbose]"
+    );
+  }
+  return options;
+}
+
+async function loadCases(dir: string): Promise<BenchmarkCase[]> {
+  const files = (await fs.readdir(dir))
+    .filter((file) => file.endsWith(".json"))
+    .sort();
+  const cases: BenchmarkCase[] = [];
+  for (const file of files) {
+    const content = JSON.parse(
+      await fs.readFile(path.join(dir, file), "utf-8")
+    );
+    const missing = CASE_FIELDS.filter((field) => !(field in content));
+    if (missing.length > 0) {
+      console.error(
+        `⚠️ ${file} をスキップ: ${missing.join(", ")} がありません`
+      );
+      continue;
+    }
+    const { image, question, targets, ...args } = content;
+    cases.push({
+      name: path.basename(file, ".json"),
+      imagePath: path.resolve(dir, image),
+      question,
+      targets,
+      args,
+    });
+  }
+  return cases;
+}
+
+// 設定ファイルは1つの設定か設定の配列
+async function loadConfigs(paths: string[]): Promise<BenchmarkConfig[]> {
+  if (paths.length === 0) {
+    return [DEFAULT_CONFIG];
+  }
+  const configs: BenchmarkConfig[] = [];
+  for (const configPath of paths) {
+    const content = JSON.parse(await fs.readFile(configPath, "utf-8"));
+    for (const config of Array.isArray(content) ? content : [content]) {
+      configs.push({
+        ...config,
+        name: config.name || path.basename(configPath, ".json"),
+      });
+    }
+  }
+  return configs;
+}
+
+// 同じディレクトリのサーバー本体（tsx 実行時は .ts）を、同じNode.jsの設定で起動する
+function defaultServerCommand(): string[] {
+  const self = fileURLToPath(import.meta.url);
+  const entry = path.join(path.dirname(self), `index${path.extname(self)}`);
+  return [process.execPath, ...process.execArgv, entry];
+}
+
+async function connect(
+  config: BenchmarkConfig,
+  verbose: boolean
+): Promise<Client> {
+  const [command, ...args] = config.command ?? defaultServerCommand();
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries({
+    ...process.env,
+    ...DEFAULT_SERVER_ENV,
+    ...config.env,
+  })) {
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+  const transport = new StdioClientTransport({
+    command,
+    args,
+    env,
+    stderr: verbose ? "inherit" : "ignore",
+  });
+  const client = new Client(
+    { name: "localization-benchmark", version: "1.0.0" },
+    { capabilities: {} }
+  );
+  await client.connect(transport);
+  return client;
+}
+
+async function runCase(
+  client: Client,
+  config: BenchmarkConfig,
+  testCase: BenchmarkCase
+): Promise<CaseResult> {
+  const startedAt = Date.now();
+  try {
+    const image = await fs.readFile(testCase.imagePath);
+    const result = await client.callTool({
+      name: "analyze_screenshot",
+      arguments: {
+        ...DEFAULT_CASE_ARGS,
+        ...testCase.args,
+        ...config.args,
+        image_data: image.toString("base64"),
+        question: testCase.question,
+      },
+    });
+    const latency = Date.now() - startedAt;
+    const content = (result.content as { type: string; text?: string }[])[0];
+    const payload = JSON.parse(content?.text ?? "{}");
+    if (!payload.success) {
+      return failedCase(
+        testCase.name,
+        testCase.targets,
+        payload.error,
+        latency
+      );
+    }
+    return scoreCase(
+      testCase.name,
+      testCase.targets,
+      payload.tutorial_steps,
+      latency
+    );
+  } catch (error) {
+    return failedCase(
+      testCase.name,
+      testCase.targets,
+      error instanceof Error ? error.message : String(error),
+      Date.now() - startedAt
+    );
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const cases = await loadCases(options.casesDir);
+  const configs = await loadConfigs(options.configPaths);
+  console.error(
+    `📊 ベンチマーク開始: ${cases.length}ケース × ${configs.length}設定`
+  );
+
+  const reports: ConfigReport[] = [];
+  for (const config of configs) {
+    const client = await connect(config, options.verbose);
+    const results: CaseResult[] = [];
+    try {
+      for (const testCase of cases) {
+        const result = await runCase(client, config, testCase);
+        console.error(
+          `${result.success ? "✅" : "❌"} [${config.name}] ${
+            testCase.name
+          }: IoU ${result.mean_iou.toFixed(
+            3
+          )}, 命中率 ${result.hit_rate.toFixed(3)}${
+            result.error ? ` (${result.error})` : ""
+          }`
+        );
+        results.push(result);
+      }
+    } finally {
+      await client.close();
+    }
+    reports.push({ summary: summarize(config.name, results), cases: results });
+  }
+
+  const generatedAt = new Date();
+  await fs.mkdir(path.dirname(path.resolve(options.out)), { recursive: true });
+  await fs.writeFile(
+    `${options.out}.json`,
+    JSON.stringify(
+      { generated_at: generatedAt.toISOString(), configs: reports },
+      null,
+      2
+    )
+  );
+  await fs.writeFile(
+    `${options.out}.md`,
+    renderMarkdownReport(reports, generatedAt)
+  );
+
+  for (const { summary } of reports) {
+    console.error(
+      `📈 ${summary.config}: 平均IoU ${summary.mean_iou.toFixed(
+        3
+      )}, 命中率 ${summary.hit_rate.toFixed(3)}, 失敗 ${summary.errors}件`
+    );
+  }
+  console.error(`📝 レポート: ${options.out}.json / ${options.out}.md`);
+}
+
+main().catch((error) => {
+  console.error("❌ ベンチマークに失敗しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,205 @@
+import sharp from "sharp";
+import { Rect } from "./coordinateMapping.js";
+import { NormalizedImage } from "./imageProcessing.js";
+
+export interface SnapOptions {
+  searchRatio: number; // 枠の大きさに対する探索範囲の比率
+  minSearch: number; // 探索範囲の下限・上限（送信画像のピクセル）
+  maxSearch: number;
+  minEdgeStrength: number; // 辺として採用する平均輝度差の下限
+  minContrast: number; // 周囲の中央値に対する強さの比の下限
+  maxSizeChange: number; // 吸着前後の幅・高さの比がこれを超えたら不採用
+}
+
+export interface GreyscaleImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface SnapResult {
+  rect: Rect; // 吸着後の枠（送信画像のピクセル座標）
+  applied: boolean;
+  confidence: number; // 0〜1（吸着した辺の明瞭さの平均、吸着しない辺は0）
+  snappedSides: number;
+}
+
+export const DEFAULT_SNAP_OPTIONS: SnapOptions = {
+  searchRatio: 0.5,
+  minSearch: 6,
+  maxSearch: 24,
+  minEdgeStrength: 12,
+  minContrast: 2,
+  maxSizeChange: 2,
+};
+
+export async function loadGreyscale(
+  image: NormalizedImage
+): Promise<GreyscaleImage> {
+  const { data, info } = await sharp(Buffer.from(image.data, "base64"))
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { width: info.width, height: info.height, data };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+// 縦の辺（x）または横の辺（y）ごとに、span の範囲で平均した輝度差を求める
+function edgeProfile(
+  grey: GreyscaleImage,
+  orientation: "vertical" | "horizontal",
+  from: number,
+  to: number,
+  spanStart: number,
+  spanEnd: number
+): Map<number, number> {
+  const profile = new Map<number, number>();
+  const { width, data } = grey;
+
+  for (let position = from; position <= to; position++) {
+    let sum = 0;
+    for (let along = spanStart; along < spanEnd; along++) {
+      const index =
+        orientation === "vertical"
+          ? along * width + position
+          : position * width + along;
+      const previous = orientation === "vertical" ? index - 1 : index - width;
+      sum += Math.abs(data[index] - data[previous]);
+    }
+    profile.set(position, sum / Math.max(1, spanEnd - spanStart));
+  }
+  return profile;
+}
+
+// 予測した辺の近くで最も強い辺を探す（遠いほど割り引く）
+function snapSide(
+  profile: Map<number, number>,
+  predicted: number,
+  search: number,
+  options: SnapOptions
+): { position: number; confidence: number } | null {
+  let best: { position: number; strength: number; score: number } | null = null;
+  for (const [position, strength] of profile) {
+    const score =
+      strength * (1 - (0.5 * Math.abs(position - predicted)) / search);
+    if (!best || score > best.score) {
+      best = { position, strength, score };
+    }
+  }
+  if (!best) {
+    return null;
+  }
+
+  const contrast = best.strength / (median([...profile.values()]) + 1);
+  if (
+    best.strength < options.minEdgeStrength ||
+    contrast < options.minContrast
+  ) {
+    return null;
+  }
+  return {
+    position: best.position,
+    confidence: clamp((contrast - 1) / (options.minContrast * 3 - 1), 0, 1),
+  };
+}
+
+// 枠の各辺を近傍の明瞭な輝度境界（コントロールの枠線や背景との境目）に吸着させる
+export function snapRect(
+  grey: GreyscaleImage,
+  rect: Rect,
+  options: SnapOptions = DEFAULT_SNAP_OPTIONS
+): SnapResult {
+  const unchanged = { rect, applied: false, confidence: 0, snappedSides: 0 };
+  const search = clamp(
+    Math.round(Math.max(rect.width, rect.height) * options.searchRatio),
+    options.minSearch,
+    options.maxSearch
+  );
+
+  const left = Math.round(rect.x);
+  const top = Math.round(rect.y);
+  const right = Math.round(rect.x + rect.width);
+  const bottom = Math.round(rect.y + rect.height);
+
+  // 辺の強さは枠の内側の範囲で平均する（隣の要素の辺を拾いにくくする）
+  const spanTop = clamp(top, 0, grey.height - 1);
+  const spanBottom = clamp(bottom, spanTop + 1, grey.height);
+  const spanLeft = clamp(left, 0, grey.width - 1);
+  const spanRight = clamp(right, spanLeft + 1, grey.width);
+
+  const range = (predicted: number, limit: number) => [
+    clamp(predicted - search, 1, limit - 1),
+    clamp(predicted + search, 1, limit - 1),
+  ];
+  const sides = {
+    left: { predicted: left, limit: grey.width, orientation: "vertical" },
+    right: { predicted: right, limit: grey.width, orientation: "vertical" },
+    top: { predicted: top, limit: grey.height, orientation: "horizontal" },
+    bottom: {
+      predicted: bottom,
+      limit: grey.height,
+      orientation: "horizontal",
+    },
+  } as const;
+
+  const snapped: Record<keyof typeof sides, number> = {
+    left,
+    right,
+    top,
+    bottom,
+  };
+  let confidenceSum = 0;
+  let snappedSides = 0;
+
+  for (const [name, side] of Object.entries(sides) as [
+    keyof typeof sides,
+    (typeof sides)[keyof typeof sides]
+  ][]) {
+    const [from, to] = range(side.predicted, side.limit);
+    if (from > to) {
+      continue;
+    }
+    const profile =
+      side.orientation === "vertical"
+        ? edgeProfile(grey, "vertical", from, to, spanTop, spanBottom)
+        : edgeProfile(grey, "horizontal", from, to, spanLeft, spanRight);
+    const result = snapSide(profile, side.predicted, search, options);
+    if (result) {
+      snapped[name] = result.position;
+      confidenceSum += result.confidence;
+      snappedSides++;
+    }
+  }
+
+  const width = snapped.right - snapped.left;
+  const height = snapped.bottom - snapped.top;
+  const sizeRatio = Math.max(
+    width / Math.max(1, rect.width),
+    rect.width / Math.max(1, width),
+    height / Math.max(1, rect.height),
+    rect.height / Math.max(1, height)
+  );
+  if (
+    snappedSides === 0 ||
+    width < 2 ||
+    height < 2 ||
+    sizeRatio > options.maxSizeChange
+  ) {
+    return unchanged;
+  }
+
+  return {
+    rect: { x: snapped.left, y: snapped.top, width, height },
+    applied: true,
+    confidence: confidenceSum / 4,
+    snappedSides,
+  };
+}
@@ -0,0 +1,66 @@
+import { Rect } from "./coordinateMapping.js";
+
+export interface CalibrationOptions {
+  accuracyThreshold: number; // 全ステップがこのスコア以上になったら終了
+  maxIterations: number;
+}
+
+export const DEFAULT_CALIBRATION_OPTIONS: CalibrationOptions = {
+  accuracyThreshold: 0.9,
+  maxIterations: 3,
+};
+
+// 1回の呼び出しで許す反復回数の上限（コストの暴走を防ぐ）
+export const MAX_CALIBRATION_ITERATIONS = 5;
+
+export interface CalibrationBox {
+  mark: number;
+  rect: Rect; // 送信画像のピクセル座標
+}
+
+export function resolveCalibrationOptions(args: any): CalibrationOptions {
+  const threshold = Number(args?.accuracy_threshold);
+  const iterations = Number(args?.max_iterations);
+  return {
+    accuracyThreshold:
+      Number.isFinite(threshold) && threshold > 0 && threshold <= 1
+        ? threshold
+        : DEFAULT_CALIBRATION_OPTIONS.accuracyThreshold,
+    maxIterations:
+      Number.isInteger(iterations) && iterations >= 1
+        ? Math.min(iterations, MAX_CALIBRATION_ITERATIONS)
+        : DEFAULT_CALIBRATION_OPTIONS.maxIterations,
+  };
+}
+
+// オーバーレイと同じ見た目の赤枠に番号を付けて描く
+export function calibrationOverlaySvg(
+  boxes: CalibrationBox[],
+  width: number,
+  height: number
+): string {
+  const fontSize = 14;
+  const shapes = boxes.map(({ mark, rect }) => {
+    const label = String(mark);
+    const labelWidth = label.length * 8 + 8;
+    const labelX = Math.max(0, rect.x - 2);
+    const labelY = Math.max(0, rect.y - fontSize - 6);
+    return `<rect x="${rect.x.toFixed(1)}" y="${rect.y.toFixed(
+      1
+    )}" width="${rect.width.toFixed(1)}" height="${rect.height.toFixed(
+      1
+    )}" fill="none" stroke="#ff0000" stroke-width="2"/>
+<rect x="${labelX.toFixed(1)}" y="${labelY.toFixed(
+      1
+    )}" width="${labelWidth}" height="${fontSize + 4}" fill="#ff0000"/>
+<text x="${(labelX + 4).toFixed(1)}" y="${(labelY + fontSize).toFixed(
+      1
+    )}">${label}</text>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+<g font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" font-weight="bold" fill="#ffffff">${shapes.join(
+    "\n"
+  )}</g>
+</svg>`;
+}
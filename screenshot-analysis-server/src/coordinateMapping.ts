@@ -0,0 +1,331 @@
+import { NormalizedImage } from "./imageProcessing.js";
+import { Annotation, Point } from "./types.js";
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ScreenGeometry {
+  screenWidth: number; // 論理スクリーン幅（ポイント）
+  screenHeight: number;
+  scaleFactor: number; // クライアントが申告したスケールファクター
+  originX?: number; // 画像左上のグローバル論理座標（複数ディスプレイ時）
+  originY?: number;
+}
+
+// ディスプレイのフレームはグローバル論理座標（メインディスプレイ左上が原点）
+export interface DisplayInfo {
+  id: string | number;
+  frame: Rect;
+  scaleFactor: number;
+}
+
+export interface DisplayLayout {
+  displays: DisplayInfo[];
+  bounds: Rect; // 全ディスプレイを囲む矩形
+}
+
+// 送信画像のピクセル座標 → グローバル論理座標（ポイント）の対応
+//   logicalX = (imageX - offsetX) * scaleX + originX
+//   logicalY = (imageY - offsetY) * scaleY + originY
+export interface CoordinateMapping {
+  mode: "stretch" | "letterbox";
+  scaleX: number;
+  scaleY: number;
+  offsetX: number; // 送信画像上の余白（ピクセル）
+  offsetY: number;
+  originX: number;
+  originY: number;
+  effectiveScaleFactorX: number; // 受信画像の物理ピクセル / 論理ポイント
+  effectiveScaleFactorY: number;
+}
+
+export interface MappingResult {
+  mapping: CoordinateMapping;
+  warnings: string[];
+}
+
+// 縦横比・スケールファクターの許容誤差
+const ASPECT_TOLERANCE = 0.01;
+const SCALE_TOLERANCE = 0.02;
+
+// 実際に送信した画像のピクセル数から論理座標への対応を求める
+export function deriveCoordinateMapping(
+  image: Pick<
+    NormalizedImage,
+    "width" | "height" | "originalWidth" | "originalHeight"
+  >,
+  geometry: ScreenGeometry
+): MappingResult {
+  const warnings: string[] = [];
+  const { screenWidth, screenHeight, scaleFactor } = geometry;
+  const originX = geometry.originX ?? 0;
+  const originY = geometry.originY ?? 0;
+
+  const imageAspect = image.width / image.height;
+  const screenAspect = screenWidth / screenHeight;
+
+  let mapping: CoordinateMapping;
+
+  if (Math.abs(imageAspect / screenAspect - 1) <= ASPECT_TOLERANCE) {
+    mapping = {
+      mode: "stretch",
+      scaleX: screenWidth / image.width,
+      scaleY: screenHeight / image.height,
+      offsetX: 0,
+      offsetY: 0,
+      originX,
+      originY,
+      effectiveScaleFactorX: image.originalWidth / screenWidth,
+      effectiveScaleFactorY: image.originalHeight / screenHeight,
+    };
+  } else {
+    // 縦横比が合わない場合は、画面が中央に等倍率で収められている（レターボックス）とみなす
+    const scale = Math.max(
+      screenWidth / image.width,
+      screenHeight / image.height
+    );
+    const contentWidth = screenWidth / scale;
+    const contentHeight = screenHeight / scale;
+    const resizeRatio = image.originalWidth / image.width;
+
+    mapping = {
+      mode: "letterbox",
+      scaleX: scale,
+      scaleY: scale,
+      offsetX: (image.width - contentWidth) / 2,
+      offsetY: (image.height - contentHeight) / 2,
+      originX,
+      originY,
+      effectiveScaleFactorX: resizeRatio / scale,
+      effectiveScaleFactorY: resizeRatio / scale,
+    };
+
+    warnings.push(
+      `画像の縦横比(${image.originalWidth}x${image.originalHeight})が論理解像度(${screenWidth}x${screenHeight})と一致しません。レターボックスとして座標を補正しました`
+    );
+  }
+
+  const scaleMismatch = [
+    mapping.effectiveScaleFactorX,
+    mapping.effectiveScaleFactorY,
+  ].some((actual) => Math.abs(actual / scaleFactor - 1) > SCALE_TOLERANCE);
+
+  if (scaleMismatch) {
+    const actualX = mapping.effectiveScaleFactorX.toFixed(3);
+    const actualY = mapping.effectiveScaleFactorY.toFixed(3);
+    warnings.push(
+      `申告されたscale_factor(${scaleFactor})と画像から求めた実効スケール(${actualX}, ${actualY})が一致しません。画像のピクセル数を基準に変換しました`
+    );
+  }
+
+  return { mapping, warnings };
+}
+
+export function imagePointToLogical(
+  x: number,
+  y: number,
+  mapping: CoordinateMapping
+): { x: number; y: number } {
+  return {
+    x: (x - mapping.offsetX) * mapping.scaleX + mapping.originX,
+    y: (y - mapping.offsetY) * mapping.scaleY + mapping.originY,
+  };
+}
+
+export function logicalPointToImage(
+  x: number,
+  y: number,
+  mapping: CoordinateMapping
+): { x: number; y: number } {
+  return {
+    x: (x - mapping.originX) / mapping.scaleX + mapping.offsetX,
+    y: (y - mapping.originY) / mapping.scaleY + mapping.offsetY,
+  };
+}
+
+export function imageRectToLogical(
+  rect: Rect,
+  mapping: CoordinateMapping
+): Rect {
+  const origin = imagePointToLogical(rect.x, rect.y, mapping);
+  return {
+    x: origin.x,
+    y: origin.y,
+    width: rect.width * mapping.scaleX,
+    height: rect.height * mapping.scaleY,
+  };
+}
+
+export function logicalRectToImage(
+  rect: Rect,
+  mapping: CoordinateMapping
+): Rect {
+  const origin = logicalPointToImage(rect.x, rect.y, mapping);
+  return {
+    x: origin.x,
+    y: origin.y,
+    width: rect.width / mapping.scaleX,
+    height: rect.height / mapping.scaleY,
+  };
+}
+
+// 注釈の全ての座標に同じ変換を適用する。半径は縦横スケールの平均で換算する
+function transformAnnotation(
+  annotation: Annotation,
+  point: (p: Point) => Point,
+  rect: (r: Rect) => Rect,
+  lengthScale: number
+): Annotation {
+  switch (annotation.type) {
+    case "point":
+      return { ...annotation, at: point(annotation.at) };
+    case "circle":
+      return {
+        ...annotation,
+        center: point(annotation.center),
+        radius: annotation.radius * lengthScale,
+      };
+    case "arrow":
+      return {
+        ...annotation,
+        from: point(annotation.from),
+        to: point(annotation.to),
+      };
+    case "spotlight":
+      return { ...annotation, rect: rect(annotation.rect) };
+    case "callout":
+      return { ...annotation, anchor: point(annotation.anchor) };
+  }
+}
+
+export function imageAnnotationToLogical(
+  annotation: Annotation,
+  mapping: CoordinateMapping
+): Annotation {
+  return transformAnnotation(
+    annotation,
+    (p) => imagePointToLogical(p.x, p.y, mapping),
+    (r) => imageRectToLogical(r, mapping),
+    (mapping.scaleX + mapping.scaleY) / 2
+  );
+}
+
+export function logicalAnnotationToImage(
+  annotation: Annotation,
+  mapping: CoordinateMapping
+): Annotation {
+  return transformAnnotation(
+    annotation,
+    (p) => logicalPointToImage(p.x, p.y, mapping),
+    (r) => logicalRectToImage(r, mapping),
+    2 / (mapping.scaleX + mapping.scaleY)
+  );
+}
+
+// レスポンスに含めるマッピング情報
+export function describeCoordinateMapping(mapping: CoordinateMapping) {
+  return {
+    mode: mapping.mode,
+    scale_x: mapping.scaleX,
+    scale_y: mapping.scaleY,
+    offset_x: mapping.offsetX,
+    offset_y: mapping.offsetY,
+    origin_x: mapping.originX,
+    origin_y: mapping.originY,
+    effective_scale_factor_x: mapping.effectiveScaleFactorX,
+    effective_scale_factor_y: mapping.effectiveScaleFactorY,
+  };
+}
+
+export function buildDisplayLayout(displays: DisplayInfo[]): DisplayLayout {
+  const left = Math.min(...displays.map((d) => d.frame.x));
+  const top = Math.min(...displays.map((d) => d.frame.y));
+  const right = Math.max(...displays.map((d) => d.frame.x + d.frame.width));
+  const bottom = Math.max(...displays.map((d) => d.frame.y + d.frame.height));
+
+  return {
+    displays,
+    bounds: { x: left, y: top, width: right - left, height: bottom - top },
+  };
+}
+
+// 単一スクリーン指定を、原点(0,0)のディスプレイ1台として扱う
+export function singleDisplayLayout(geometry: ScreenGeometry): DisplayLayout {
+  return buildDisplayLayout([
+    {
+      id: "main",
+      frame: {
+        x: 0,
+        y: 0,
+        width: geometry.screenWidth,
+        height: geometry.screenHeight,
+      },
+      scaleFactor: geometry.scaleFactor,
+    },
+  ]);
+}
+
+// キャプチャ全体の論理ジオメトリ（複数ディスプレイは最大のスケールで合成される）
+export function layoutGeometry(layout: DisplayLayout): ScreenGeometry {
+  return {
+    screenWidth: layout.bounds.width,
+    screenHeight: layout.bounds.height,
+    scaleFactor: Math.max(...layout.displays.map((d) => d.scaleFactor)),
+    originX: layout.bounds.x,
+    originY: layout.bounds.y,
+  };
+}
+
+function overlapArea(a: Rect, b: Rect): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+// グローバル座標の矩形が属するディスプレイを求め、ディスプレイ内座標に変換する
+export function locateOnDisplay(
+  rect: Rect,
+  layout: DisplayLayout
+): { display: DisplayInfo; local: Rect } {
+  const centerX = rect.x + rect.width / 2;
+  const centerY = rect.y + rect.height / 2;
+
+  let best = layout.displays[0];
+  let bestScore = -Infinity;
+
+  for (const display of layout.displays) {
+    const { frame } = display;
+    // 重なり面積が最大のディスプレイ、重ならなければ中心が最も近いディスプレイ
+    const overlap = overlapArea(rect, frame);
+    const dx = Math.max(
+      frame.x - centerX,
+      0,
+      centerX - (frame.x + frame.width)
+    );
+    const dy = Math.max(
+      frame.y - centerY,
+      0,
+      centerY - (frame.y + frame.height)
+    );
+    const score = overlap > 0 ? overlap : -Math.hypot(dx, dy);
+
+    if (score > bestScore) {
+      best = display;
+      bestScore = score;
+    }
+  }
+
+  return {
+    display: best,
+    local: {
+      x: rect.x - best.frame.x,
+      y: rect.y - best.frame.y,
+      width: rect.width,
+      height: rect.height,
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { ApiError } from "./apiClient.js";
+import { ImageProcessingError } from "./imageProcessing.js";
+import { CancelledError } from "./progress.js";
+import { StructuredOutputError } from "./structuredOutput.js";
+
+// ツール引数の不備
+export class InvalidArgumentsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidArgumentsError";
+  }
+}
+
+export interface ErrorPayload {
+  success: false;
+  error: string;
+  error_code: string;
+  retry_suggested: boolean;
+  [key: string]: unknown;
+}
+
+// すべての失敗を error_code / retry_suggested を持つ共通形式に変換する
+export function describeError(error: unknown): ErrorPayload {
+  if (error instanceof ApiError) {
+    return {
+      success: false,
+      error: error.message,
+      error_code: error.errorCode,
+      retry_suggested: error.retrySuggested,
+      ...(error.status !== undefined && { status: error.status }),
+      ...(error.retryAfterMs !== undefined && {
+        retry_after_ms: Math.ceil(error.retryAfterMs),
+      }),
+    };
+  }
+
+  if (error instanceof StructuredOutputError) {
+    return {
+      success: false,
+      error: error.message,
+      error_code: error.errorCode,
+      retry_suggested: true,
+      validation_errors: error.validationErrors,
+      attempts: error.attempts,
+      raw_response: error.rawResponse.slice(0, 500),
+    };
+  }
+
+  if (error instanceof ImageProcessingError) {
+    return {
+      success: false,
+      error: `画像の前処理に失敗しました: ${error.message}`,
+      error_code: "invalid_image",
+      retry_suggested: false,
+    };
+  }
+
+  if (error instanceof CancelledError) {
+    return {
+      success: false,
+      error: error.message,
+      error_code: "cancelled",
+      retry_suggested: false,
+    };
+  }
+
+  if (error instanceof InvalidArgumentsError) {
+    return {
+      success: false,
+      error: error.message,
+      error_code: "invalid_arguments",
+      retry_suggested: false,
+    };
+  }
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return {
+    success: false,
+    error: `処理に失敗しました: ${errorMessage}`,
+    error_code: "internal_error",
+    retry_suggested: false,
+  };
+}
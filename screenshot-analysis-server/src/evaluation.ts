@@ -0,0 +1,239 @@
+import { Rect } from "./coordinateMapping.js";
+import { intersectionOverUnion } from "./uiElements.js";
+
+// 正解の枠（グローバル論理座標）
+export interface GroundTruthBox extends Rect {
+  text?: string;
+}
+
+export interface TargetScore {
+  target: string;
+  matched_step: string | null;
+  iou: number;
+  center_error: number | null; // 中心間の距離（論理ポイント）。対応する予測が無ければ null
+  hit: boolean; // 予測枠の中心が正解枠の内側にある
+}
+
+export interface CaseResult {
+  case: string;
+  success: boolean;
+  error?: string;
+  latency_ms: number;
+  predicted: number;
+  extra_predictions: number; // どの正解とも対応しなかった予測の数
+  targets: TargetScore[];
+  mean_iou: number;
+  mean_center_error: number | null;
+  hit_rate: number;
+}
+
+export interface ConfigSummary {
+  config: string;
+  cases: number;
+  errors: number;
+  mean_iou: number;
+  median_center_error: number | null;
+  hit_rate: number; // 全ケースの正解枠に対する命中の割合
+  mean_latency_ms: number;
+}
+
+export interface ConfigReport {
+  summary: ConfigSummary;
+  cases: CaseResult[];
+}
+
+type PredictedBox = Rect & { id: string };
+
+function center(rect: Rect) {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+function contains(rect: Rect, point: { x: number; y: number }): boolean {
+  return (
+    point.x >= rect.x &&
+    point.x <= rect.x + rect.width &&
+    point.y >= rect.y &&
+    point.y <= rect.y + rect.height
+  );
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function distance(a: Rect, b: Rect): number {
+  const p = center(a);
+  const q = center(b);
+  return Math.hypot(p.x - q.x, p.y - q.y);
+}
+
+// 正解と予測を1対1で対応づける（IoUの大きい順、重ならなければ中心の近い順）
+export function scoreCase(
+  name: string,
+  targets: GroundTruthBox[],
+  predicted: PredictedBox[],
+  latencyMs: number
+): CaseResult {
+  const pairs = targets
+    .flatMap((target, t) =>
+      predicted.map((prediction, p) => ({
+        t,
+        p,
+        iou: intersectionOverUnion(target, prediction),
+        distance: distance(target, prediction),
+      }))
+    )
+    .sort((a, b) => b.iou - a.iou || a.distance - b.distance);
+
+  const matchedTargets = new Map<number, (typeof pairs)[number]>();
+  const usedPredictions = new Set<number>();
+  for (const pair of pairs) {
+    if (matchedTargets.has(pair.t) || usedPredictions.has(pair.p)) {
+      continue;
+    }
+    matchedTargets.set(pair.t, pair);
+    usedPredictions.add(pair.p);
+  }
+
+  const scores: TargetScore[] = targets.map((target, t) => {
+    const pair = matchedTargets.get(t);
+    const prediction = pair && predicted[pair.p];
+    return {
+      target: target.text ?? `target_${t + 1}`,
+      matched_step: prediction ? prediction.id : null,
+      iou: pair?.iou ?? 0,
+      center_error: pair?.distance ?? null,
+      hit: prediction ? contains(target, center(prediction)) : false,
+    };
+  });
+
+  const errors = scores.flatMap((score) =>
+    score.center_error === null ? [] : [score.center_error]
+  );
+  return {
+    case: name,
+    success: true,
+    latency_ms: latencyMs,
+    predicted: predicted.length,
+    extra_predictions: predicted.length - usedPredictions.size,
+    targets: scores,
+    mean_iou: mean(scores.map((score) => score.iou)),
+    mean_center_error: errors.length > 0 ? mean(errors) : null,
+    hit_rate: mean(scores.map((score) => (score.hit ? 1 : 0))),
+  };
+}
+
+// 解析に失敗したケースは全ての正解を外したものとして採点する
+export function failedCase(
+  name: string,
+  targets: GroundTruthBox[],
+  error: string,
+  latencyMs: number
+): CaseResult {
+  return {
+    ...scoreCase(name, targets, [], latencyMs),
+    success: false,
+    error,
+  };
+}
+
+export function summarize(config: string, cases: CaseResult[]): ConfigSummary {
+  const targets = cases.flatMap((result) => result.targets);
+  return {
+    config,
+    cases: cases.length,
+    errors: cases.filter((result) => !result.success).length,
+    mean_iou: mean(targets.map((target) => target.iou)),
+    median_center_error: median(
+      targets.flatMap((target) =>
+        target.center_error === null ? [] : [target.center_error]
+      )
+    ),
+    hit_rate: mean(targets.map((target) => (target.hit ? 1 : 0))),
+    mean_latency_ms: mean(cases.map((result) => result.latency_ms)),
+  };
+}
+
+function formatNumber(value: number | null, digits = 3): string {
+  return value === null ? "-" : value.toFixed(digits);
+}
+
+function formatDelta(value: number, base: number): string {
+  const delta = value - base;
+  return `${delta >= 0 ? "+" : ""}${delta.toFixed(3)}`;
+}
+
+// 設定ごとの集計と、ケースごとの比較表（2つ目以降の設定は1つ目との差も載せる）
+export function renderMarkdownReport(
+  reports: ConfigReport[],
+  generatedAt: Date
+): string {
+  const lines = [
+    "# 位置特定精度ベンチマーク",
+    "",
+    `実行日時: ${generatedAt.toISOString()}`,
+    "",
+    "## 集計",
+    "",
+    "| 設定 | ケース | 失敗 | 平均IoU | 中心誤差の中央値(pt) | 命中率 | 平均所要時間(ms) |",
+    "| --- | ---: | ---: | ---: | ---: | ---: | ---: |",
+    ...reports.map(
+      ({ summary }) =>
+        `| ${[
+          summary.config,
+          summary.cases,
+          summary.errors,
+          formatNumber(summary.mean_iou),
+          formatNumber(summary.median_center_error, 1),
+          formatNumber(summary.hit_rate),
+          Math.round(summary.mean_latency_ms),
+        ].join(" | ")} |`
+    ),
+  ];
+
+  const [base, ...others] = reports;
+  if (base) {
+    lines.push(
+      "",
+      "## ケース別（平均IoU / 命中率）",
+      "",
+      `| ケース | ${reports
+        .map((report) => report.summary.config)
+        .join(" | ")} |${others
+        .map((other) => ` 差 (${other.summary.config}) |`)
+        .join("")}`,
+      `| --- |${" --- |".repeat(reports.length + others.length)}`
+    );
+    for (const [index, result] of base.cases.entries()) {
+      const cells = reports.map((report) => {
+        const other = report.cases[index];
+        return other.success
+          ? `${formatNumber(other.mean_iou)} / ${formatNumber(other.hit_rate)}`
+          : `失敗: ${other.error}`;
+      });
+      const deltas = others.map(
+        (other) =>
+          `${formatDelta(
+            other.cases[index].mean_iou,
+            result.mean_iou
+          )} / ${formatDelta(other.cases[index].hit_rate, result.hit_rate)}`
+      );
+      lines.push(`| ${result.case} | ${[...cells, ...deltas].join(" | ")} |`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,274 @@
+import { DisplayLayout, locateOnDisplay, Rect } from "./coordinateMapping.js";
+import { TutorialStep } from "./types.js";
+import { intersectionOverUnion, sameLabel } from "./uiElements.js";
+
+// suppress: 後のステップを削除 / merge: 2つを囲む枠にまとめて後のステップを削除 / off: 何もしない
+export type OverlapStrategy = "suppress" | "merge" | "off";
+
+export interface GeometryCheckOptions {
+  enabled: boolean;
+  clampToScreen: boolean;
+  minSize: number; // 幅・高さの下限（論理ポイント）。下回る枠は中心を保って広げる
+  maxAreaRatio: number; // ディスプレイ面積に対する上限。超える枠（ウィンドウ全体など）は削除
+  overlapThreshold: number; // 同じ要素名（表記ゆれ・包含を含む）・操作のステップ同士のIoUがこれ以上なら重複とみなす
+  overlapStrategy: OverlapStrategy;
+}
+
+export type AdjustmentKind =
+  | "dropped_degenerate"
+  | "dropped_off_screen"
+  | "clamped"
+  | "enlarged"
+  | "dropped_oversized"
+  | "suppressed_overlap"
+  | "merged_overlap";
+
+// レスポンスの adjustments に載せる、後処理で行った変更
+export interface StepAdjustment {
+  step_id: string;
+  text: string;
+  kind: AdjustmentKind;
+  detail: string;
+  before?: Rect;
+  after?: Rect;
+  related_step_id?: string; // 重複とみなした相手
+}
+
+export const DEFAULT_GEOMETRY_CHECK_OPTIONS: GeometryCheckOptions = {
+  enabled: true,
+  clampToScreen: true,
+  minSize: 8,
+  maxAreaRatio: 0.8,
+  overlapThreshold: 0.7,
+  overlapStrategy: "suppress",
+};
+
+const OVERLAP_STRATEGIES: OverlapStrategy[] = ["suppress", "merge", "off"];
+
+// 幅・高さがこれ未満の枠は壊れた出力とみなす（広げずに削除する）
+const DEGENERATE_SIZE = 1;
+
+export function resolveGeometryCheckOptions(value: any): GeometryCheckOptions {
+  const defaults = DEFAULT_GEOMETRY_CHECK_OPTIONS;
+  const number = (input: unknown, fallback: number, max = Infinity) => {
+    const parsed = Number(input);
+    return Number.isFinite(parsed) && parsed >= 0 && parsed <= max
+      ? parsed
+      : fallback;
+  };
+  return {
+    enabled: value?.enabled !== false,
+    clampToScreen: value?.clamp_to_screen !== false,
+    minSize: number(value?.min_size, defaults.minSize),
+    maxAreaRatio: number(value?.max_area_ratio, defaults.maxAreaRatio, 1),
+    overlapThreshold: number(
+      value?.overlap_threshold,
+      defaults.overlapThreshold,
+      1
+    ),
+    overlapStrategy: OVERLAP_STRATEGIES.includes(value?.overlap_strategy)
+      ? value.overlap_strategy
+      : defaults.overlapStrategy,
+  };
+}
+
+function intersect(a: Rect, b: Rect): Rect | null {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  if (right <= x || bottom <= y) {
+    return null;
+  }
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+function union(a: Rect, b: Rect): Rect {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+// 中心を保ったまま最小サイズまで広げる
+function enlarge(rect: Rect, minSize: number): Rect {
+  const width = Math.max(rect.width, minSize);
+  const height = Math.max(rect.height, minSize);
+  return {
+    x: rect.x - (width - rect.width) / 2,
+    y: rect.y - (height - rect.height) / 2,
+    width,
+    height,
+  };
+}
+
+// 広げた結果はみ出した場合は、大きさを保ったまま画面内に押し戻す
+function shiftInside(rect: Rect, bounds: Rect): Rect {
+  return {
+    ...rect,
+    x: Math.min(
+      Math.max(rect.x, bounds.x),
+      bounds.x + bounds.width - rect.width
+    ),
+    y: Math.min(
+      Math.max(rect.y, bounds.y),
+      bounds.y + bounds.height - rect.height
+    ),
+  };
+}
+
+function sameRect(a: Rect, b: Rect): boolean {
+  return (
+    a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height
+  );
+}
+
+function rectOf(step: TutorialStep): Rect {
+  return { x: step.x, y: step.y, width: step.width, height: step.height };
+}
+
+function formatRect(rect: Rect): string {
+  return `(${rect.x.toFixed(1)}, ${rect.y.toFixed(1)}) ${rect.width.toFixed(
+    1
+  )}x${rect.height.toFixed(1)}`;
+}
+
+// 座標変換後のステップを画面の範囲・大きさ・重複の観点で点検し、行った変更を一覧にする
+export function checkStepGeometry(
+  steps: TutorialStep[],
+  layout: DisplayLayout,
+  relocate: (step: TutorialStep, rect: Rect) => TutorialStep,
+  options: GeometryCheckOptions = DEFAULT_GEOMETRY_CHECK_OPTIONS
+): { steps: TutorialStep[]; adjustments: StepAdjustment[] } {
+  if (!options.enabled) {
+    return { steps, adjustments: [] };
+  }
+
+  const adjustments: StepAdjustment[] = [];
+  const note = (
+    step: TutorialStep,
+    kind: AdjustmentKind,
+    detail: string,
+    extra: Partial<StepAdjustment> = {}
+  ) =>
+    adjustments.push({
+      step_id: step.id,
+      text: step.text,
+      kind,
+      detail,
+      ...extra,
+    });
+
+  const checked: TutorialStep[] = [];
+  for (const step of steps) {
+    const original = rectOf(step);
+    if (
+      !Object.values(original).every(Number.isFinite) ||
+      original.width < DEGENERATE_SIZE ||
+      original.height < DEGENERATE_SIZE
+    ) {
+      note(step, "dropped_degenerate", "幅または高さが無い枠のため削除", {
+        before: original,
+      });
+      continue;
+    }
+
+    const { display } = locateOnDisplay(original, layout);
+    const bounds = display.frame;
+    let rect = original;
+
+    if (options.clampToScreen) {
+      const clamped = intersect(rect, bounds);
+      if (!clamped) {
+        note(step, "dropped_off_screen", "枠が画面外にあるため削除", {
+          before: original,
+        });
+        continue;
+      }
+      if (!sameRect(clamped, rect)) {
+        note(step, "clamped", "画面からはみ出した部分を切り詰めた", {
+          before: rect,
+          after: clamped,
+        });
+        rect = clamped;
+      }
+    }
+
+    if (rect.width < options.minSize || rect.height < options.minSize) {
+      let enlarged = enlarge(rect, options.minSize);
+      if (options.clampToScreen) {
+        enlarged = shiftInside(enlarged, bounds);
+      }
+      note(step, "enlarged", `最小サイズ ${options.minSize}pt まで広げた`, {
+        before: rect,
+        after: enlarged,
+      });
+      rect = enlarged;
+    }
+
+    const areaRatio =
+      (rect.width * rect.height) / (bounds.width * bounds.height);
+    if (areaRatio > options.maxAreaRatio) {
+      note(
+        step,
+        "dropped_oversized",
+        `画面の${Math.round(
+          areaRatio * 100
+        )}%を覆う枠のため削除（上限${Math.round(
+          options.maxAreaRatio * 100
+        )}%）`,
+        { before: rect }
+      );
+      continue;
+    }
+
+    checked.push(sameRect(rect, original) ? step : relocate(step, rect));
+  }
+
+  // 同じ要素への同じ操作を指す重複した枠は、実行順の早いほうを残す
+  // （"Save" と "Save button" は同じ名前とみなし、隣り合う別のボタンなど名前が違えば重なっていても残す）
+  const kept: TutorialStep[] = [];
+  for (const step of checked) {
+    const index =
+      options.overlapStrategy === "off"
+        ? -1
+        : kept.findIndex(
+            (other) =>
+              other.action.kind === step.action.kind &&
+              sameLabel(other.text, step.text) &&
+              intersectionOverUnion(rectOf(other), rectOf(step)) >=
+                options.overlapThreshold
+          );
+    if (index < 0) {
+      kept.push(step);
+      continue;
+    }
+
+    const other = kept[index];
+    if (options.overlapStrategy === "merge") {
+      const merged = union(rectOf(other), rectOf(step));
+      kept[index] = relocate(other, merged);
+      note(
+        step,
+        "merged_overlap",
+        `${other.id} と重複するため ${formatRect(merged)} にまとめて削除`,
+        { before: rectOf(step), after: merged, related_step_id: other.id }
+      );
+    } else {
+      note(step, "suppressed_overlap", `${other.id} と重複するため削除`, {
+        before: rectOf(step),
+        related_step_id: other.id,
+      });
+    }
+  }
+
+  // 削除で空いた実行順を詰める（id は adjustments との対応のため変えない）
+  return {
+    steps: kept.map((step, index) => ({ ...step, order: index + 1 })),
+    adjustments,
+  };
+}
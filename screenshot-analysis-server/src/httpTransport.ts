@@ -0,0 +1,163 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import http from "node:http";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  maxBodyBytes?: number;
+}
+
+interface Session {
+  server: Server;
+  transport: SSEServerTransport;
+}
+
+// スクリーンショットのbase64はSDK標準の上限(4MB)を超えるため、本文は自前で読む
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+export function loadHttpServerOptions(
+  env: NodeJS.ProcessEnv = process.env
+): HttpServerOptions {
+  const port = parseInt(env.MCP_SERVER_PORT || "", 10);
+  return {
+    host: env.MCP_SERVER_HOST || "localhost",
+    port: Number.isFinite(port) ? port : 3000,
+  };
+}
+
+function readBody(req: http.IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new Error(`リクエストが大きすぎます (上限 ${limit} バイト)`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+// MCPをHTTP+SSEで提供する常駐サーバー。セッションごとにServerを作り、状態は呼び出し側で共有する
+export class McpHttpServer {
+  private httpServer: http.Server;
+  private sessions = new Map<string, Session>();
+  private maxBodyBytes: number;
+
+  constructor(
+    private createServer: (sessionId: string) => Server,
+    private options: HttpServerOptions
+  ) {
+    this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("❌ HTTPリクエスト処理エラー:", error);
+        if (!res.headersSent) {
+          res.writeHead(500).end(String(error));
+        }
+      });
+    });
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once("error", reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  // 新規接続を止め、全セッションを閉じてから終了する
+  async close(): Promise<void> {
+    console.error(`🛑 HTTPサーバー停止中 (セッション: ${this.sessions.size})`);
+    const closing = new Promise<void>((resolve) =>
+      this.httpServer.close(() => resolve())
+    );
+    await Promise.all(
+      [...this.sessions.values()].map((session) =>
+        session.server.close().catch(() => undefined)
+      )
+    );
+    this.sessions.clear();
+    await closing;
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) {
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+
+    if (req.method === "GET" && url.pathname === "/sse") {
+      await this.openSession(res);
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/messages") {
+      await this.handleMessage(req, res, url.searchParams.get("sessionId"));
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/health") {
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ status: "ok", sessions: this.sessions.size }));
+      return;
+    }
+
+    res.writeHead(404).end("Not Found");
+  }
+
+  private async openSession(res: http.ServerResponse) {
+    const transport = new SSEServerTransport("/messages", res);
+    const sessionId = transport.sessionId;
+    const server = this.createServer(sessionId);
+
+    this.sessions.set(sessionId, { server, transport });
+    server.onclose = () => {
+      this.sessions.delete(sessionId);
+      console.error(`🔌 セッション終了: ${sessionId}`);
+    };
+
+    // connect() が start() を呼び、endpointイベントを送信する
+    await server.connect(transport);
+    console.error(`🔗 セッション開始: ${sessionId}`);
+  }
+
+  private async handleMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    sessionId: string | null
+  ) {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session) {
+      res.writeHead(404).end("Unknown session");
+      return;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(await readBody(req, this.maxBodyBytes));
+    } catch (error) {
+      res.writeHead(400).end(String(error));
+      return;
+    }
+
+    try {
+      await session.transport.handleMessage(message);
+    } catch (error) {
+      res.writeHead(400).end(`Invalid message: ${String(error)}`);
+      return;
+    }
+    res.writeHead(202).end("Accepted");
+  }
+}
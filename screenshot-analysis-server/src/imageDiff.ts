@@ -0,0 +1,124 @@
+import sharp from "sharp";
+import { Rect } from "./coordinateMapping.js";
+import { NormalizedImage } from "./imageProcessing.js";
+import { labelCellRegions } from "./pixelRegions.js";
+
+export interface ImageDiffOptions {
+  analysisWidth: number; // 差分計算用に縮小する幅（ピクセル）
+  pixelThreshold: number; // 輝度差（0〜255）がこれを超えたら変化とみなす
+  cellSize: number; // 変化領域をまとめるセルの大きさ（縮小後のピクセル）
+  cellRatio: number; // セル内の変化ピクセルの割合がこれを超えたら変化セル
+  maxRegions: number;
+}
+
+export interface ChangedRegion extends Rect {
+  changedRatio: number; // 領域内で変化したピクセルの割合
+}
+
+export interface ImageDiff {
+  changedRatio: number; // 画像全体で変化したピクセルの割合
+  regions: ChangedRegion[]; // 変化領域（afterの送信画像ピクセル座標、大きい順）
+}
+
+export const DEFAULT_IMAGE_DIFF_OPTIONS: ImageDiffOptions = {
+  analysisWidth: 320,
+  pixelThreshold: 24,
+  cellSize: 8,
+  cellRatio: 0.02,
+  maxRegions: 10,
+};
+
+async function toGreyscale(
+  image: NormalizedImage,
+  width: number,
+  height: number
+): Promise<Buffer> {
+  return sharp(Buffer.from(image.data, "base64"))
+    .resize(width, height, { fit: "fill" })
+    .greyscale()
+    .raw()
+    .toBuffer();
+}
+
+// 操作前後のスクリーンショットを縮小・グレースケール化して比較し、変化した領域を求める
+export async function computeImageDiff(
+  before: NormalizedImage,
+  after: NormalizedImage,
+  options: Partial<ImageDiffOptions> = {}
+): Promise<ImageDiff> {
+  const { analysisWidth, pixelThreshold, cellSize, cellRatio, maxRegions } = {
+    ...DEFAULT_IMAGE_DIFF_OPTIONS,
+    ...options,
+  };
+
+  // 解像度が異なる場合もafterの縦横比に合わせて比較する
+  const width = Math.min(analysisWidth, after.width);
+  const height = Math.max(1, Math.round((after.height * width) / after.width));
+  const [beforePixels, afterPixels] = await Promise.all([
+    toGreyscale(before, width, height),
+    toGreyscale(after, width, height),
+  ]);
+
+  const columns = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const cellCounts = new Uint32Array(columns * rows);
+  let changedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (Math.abs(beforePixels[index] - afterPixels[index]) > pixelThreshold) {
+        changedPixels++;
+        cellCounts[
+          Math.floor(y / cellSize) * columns + Math.floor(x / cellSize)
+        ]++;
+      }
+    }
+  }
+
+  const cellArea = cellSize * cellSize;
+  const changedCells = cellCounts.map((count) =>
+    count / cellArea > cellRatio ? 1 : 0
+  );
+
+  // 隣接する変化セルを連結成分としてまとめ、afterの送信画像ピクセル座標に戻す
+  const scale = after.width / width;
+  const regions: ChangedRegion[] = labelCellRegions(
+    changedCells,
+    columns,
+    rows
+  ).map((region) => {
+    const x0 = region.minColumn * cellSize;
+    const y0 = region.minRow * cellSize;
+    const x1 = Math.min(width, (region.maxColumn + 1) * cellSize);
+    const y1 = Math.min(height, (region.maxRow + 1) * cellSize);
+    const pixels = region.cells.reduce(
+      (sum, cell) => sum + cellCounts[cell],
+      0
+    );
+    return {
+      x: x0 * scale,
+      y: y0 * scale,
+      width: (x1 - x0) * scale,
+      height: (y1 - y0) * scale,
+      changedRatio: pixels / ((x1 - x0) * (y1 - y0)),
+    };
+  });
+
+  regions.sort((a, b) => b.width * b.height - a.width * a.height);
+
+  return {
+    changedRatio: changedPixels / (width * height),
+    regions: regions.slice(0, maxRegions),
+  };
+}
+
+// 2つの矩形が重なるか（marginだけ広げて判定）
+export function rectsIntersect(a: Rect, b: Rect, margin: number = 0): boolean {
+  return (
+    a.x - margin < b.x + b.width &&
+    b.x - margin < a.x + a.width &&
+    a.y - margin < b.y + b.height &&
+    b.y - margin < a.y + a.height
+  );
+}
@@ -0,0 +1,329 @@
+import sharp from "sharp";
+
+export type SourceImageFormat = "png" | "jpeg" | "webp" | "heic" | "unknown";
+
+export type ImageMediaType = "image/png" | "image/jpeg" | "image/webp";
+
+export interface ImageLimits {
+  maxLongEdge: number; // 長辺の最大ピクセル数
+  maxPixels: number; // 総ピクセル数の上限
+  maxBytes: number; // エンコード後の最大バイト数
+}
+
+export interface NormalizedImage {
+  data: string; // base64（data URLプレフィックスなし）
+  mediaType: ImageMediaType;
+  width: number; // 実際に送信する画像のピクセル幅
+  height: number;
+  originalWidth: number; // 受信した画像のピクセル幅（EXIF回転適用後）
+  originalHeight: number;
+  sourceFormat: SourceImageFormat;
+  byteLength: number;
+}
+
+// Claude APIが内部でリサイズしないサイズ（長辺1568px・約1.15MP）に合わせる
+export const DEFAULT_IMAGE_LIMITS: ImageLimits = {
+  maxLongEdge: 1568,
+  maxPixels: 1_150_000,
+  maxBytes: Math.floor((5 * 1024 * 1024 * 3) / 4), // base64化後に5MB以内
+};
+
+const JPEG_QUALITIES = [90, 80, 70, 60, 50];
+
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageProcessingError";
+  }
+}
+
+export function decodeBase64Image(imageData: string): Buffer {
+  // "data:image/png;base64,..." 形式も受け付ける
+  const base64 = imageData.replace(/^data:[^;,]+;base64,/, "");
+  const buffer = Buffer.from(base64, "base64");
+  if (buffer.length === 0) {
+    throw new ImageProcessingError("画像データが空です");
+  }
+  return buffer;
+}
+
+// マジックナンバーから実際の画像形式を判定
+export function sniffImageFormat(buffer: Buffer): SourceImageFormat {
+  if (
+    buffer.length >= 8 &&
+    buffer
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return "png";
+  }
+  if (
+    buffer.length >= 3 &&
+    buffer[0] === 0xff &&
+    buffer[1] === 0xd8 &&
+    buffer[2] === 0xff
+  ) {
+    return "jpeg";
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    return "webp";
+  }
+  if (buffer.length >= 12 && buffer.toString("ascii", 4, 8) === "ftyp") {
+    const brand = buffer.toString("ascii", 8, 12);
+    if (["heic", "heix", "hevc", "hevx", "mif1", "msf1"].includes(brand)) {
+      return "heic";
+    }
+  }
+  return "unknown";
+}
+
+// 長辺・総ピクセル数の両方の制限に収まる縮小後サイズを計算
+export function fitWithinLimits(
+  width: number,
+  height: number,
+  limits: ImageLimits
+): { width: number; height: number } {
+  let scale = Math.min(1, limits.maxLongEdge / Math.max(width, height));
+  if (width * height * scale * scale > limits.maxPixels) {
+    scale = Math.sqrt(limits.maxPixels / (width * height));
+  }
+  return {
+    width: Math.max(1, Math.floor(width * scale)),
+    height: Math.max(1, Math.floor(height * scale)),
+  };
+}
+
+async function encode(
+  input: Buffer,
+  width: number,
+  height: number,
+  format: "png" | "jpeg",
+  quality: number
+): Promise<Buffer> {
+  const pipeline = sharp(input)
+    .rotate()
+    .resize(width, height, { fit: "fill", kernel: "lanczos3" });
+
+  if (format === "png") {
+    return pipeline.png({ compressionLevel: 9 }).toBuffer();
+  }
+  return pipeline
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality, mozjpeg: true })
+    .toBuffer();
+}
+
+// 画像形式を判定し、プロバイダーのサイズ・ピクセル制限内に再エンコードする
+export async function normalizeImage(
+  imageData: string,
+  limits: ImageLimits = DEFAULT_IMAGE_LIMITS
+): Promise<NormalizedImage> {
+  const input = decodeBase64Image(imageData);
+  const sourceFormat = sniffImageFormat(input);
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    if (sourceFormat === "heic") {
+      throw new ImageProcessingError(
+        `HEIC画像のデコードに対応していません（libheif付きのlibvipsが必要です）: ${reason}`
+      );
+    }
+    throw new ImageProcessingError(`画像のデコードに失敗しました: ${reason}`);
+  }
+
+  if (!metadata.width || !metadata.height) {
+    throw new ImageProcessingError("画像サイズを取得できませんでした");
+  }
+
+  // EXIFの向き（5〜8）は縦横が入れ替わる
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const originalWidth = rotated ? metadata.height : metadata.width;
+  const originalHeight = rotated ? metadata.width : metadata.height;
+
+  let target = fitWithinLimits(originalWidth, originalHeight, limits);
+
+  // スクリーンショットはPNGのほうが文字が潰れにくいので、収まるならPNGを優先
+  const preferPng = sourceFormat === "png" || sourceFormat === "webp";
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    if (preferPng) {
+      const png = await encode(input, target.width, target.height, "png", 100);
+      if (png.length <= limits.maxBytes) {
+        return buildResult(
+          png,
+          "image/png",
+          target,
+          originalWidth,
+          originalHeight,
+          sourceFormat
+        );
+      }
+    }
+
+    for (const quality of JPEG_QUALITIES) {
+      const jpeg = await encode(
+        input,
+        target.width,
+        target.height,
+        "jpeg",
+        quality
+      );
+      const sizeInMB = (jpeg.length / (1024 * 1024)).toFixed(2);
+      console.error(
+        `🔄 画像圧縮テスト - ${target.width}x${target.height} 品質: ${quality}, サイズ: ${sizeInMB}MB`
+      );
+      if (jpeg.length <= limits.maxBytes) {
+        return buildResult(
+          jpeg,
+          "image/jpeg",
+          target,
+          originalWidth,
+          originalHeight,
+          sourceFormat
+        );
+      }
+    }
+
+    // それでも大きい場合は画像サイズを縮小して再試行
+    target = {
+      width: Math.max(1, Math.floor(target.width * 0.8)),
+      height: Math.max(1, Math.floor(target.height * 0.8)),
+    };
+  }
+
+  throw new ImageProcessingError(
+    `画像を${limits.maxBytes}バイト以内に圧縮できませんでした`
+  );
+}
+
+function buildResult(
+  buffer: Buffer,
+  mediaType: ImageMediaType,
+  size: { width: number; height: number },
+  originalWidth: number,
+  originalHeight: number,
+  sourceFormat: SourceImageFormat
+): NormalizedImage {
+  const sizeInMB = (buffer.length / (1024 * 1024)).toFixed(2);
+  console.error(
+    `🖼️ 画像正規化: ${sourceFormat} ${originalWidth}x${originalHeight} → ${mediaType} ${size.width}x${size.height} (${sizeInMB}MB)`
+  );
+  return {
+    data: buffer.toString("base64"),
+    mediaType,
+    width: size.width,
+    height: size.height,
+    originalWidth,
+    originalHeight,
+    sourceFormat,
+    byteLength: buffer.length,
+  };
+}
+
+export interface PixelRegion {
+  left: number; // 受信画像（EXIF回転適用後）の整数ピクセル座標
+  top: number;
+  width: number;
+  height: number;
+}
+
+// 受信したフル解像度の画像から領域を切り出す。小さすぎる切り出しは拡大して細部を見やすくする
+export async function cropRegion(
+  imageData: string,
+  region: PixelRegion,
+  minLongEdge: number = 512,
+  limits: ImageLimits = DEFAULT_IMAGE_LIMITS
+): Promise<NormalizedImage> {
+  const input = decodeBase64Image(imageData);
+  const upscale = Math.max(
+    1,
+    minLongEdge / Math.max(region.width, region.height)
+  );
+  const target = fitWithinLimits(
+    Math.round(region.width * upscale),
+    Math.round(region.height * upscale),
+    limits
+  );
+
+  const cropped = await sharp(input)
+    .rotate()
+    .extract(region)
+    .resize(target.width, target.height, { fit: "fill", kernel: "lanczos3" })
+    .png()
+    .toBuffer();
+  if (cropped.length > limits.maxBytes) {
+    throw new ImageProcessingError(
+      `切り出し画像が${limits.maxBytes}バイトを超えました`
+    );
+  }
+
+  return {
+    data: cropped.toString("base64"),
+    mediaType: "image/png",
+    width: target.width,
+    height: target.height,
+    originalWidth: region.width,
+    originalHeight: region.height,
+    sourceFormat: sniffImageFormat(input),
+    byteLength: cropped.length,
+  };
+}
+
+// 正規化済み画像に同じサイズのSVGを重ねる（サイズは変えないので座標の対応はそのまま使える）
+export async function overlaySvg(
+  image: NormalizedImage,
+  svg: string,
+  limits: ImageLimits = DEFAULT_IMAGE_LIMITS
+): Promise<NormalizedImage> {
+  const composited = await sharp(Buffer.from(image.data, "base64"))
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+
+  if (image.mediaType === "image/png" && composited.length <= limits.maxBytes) {
+    return {
+      ...image,
+      data: composited.toString("base64"),
+      byteLength: composited.length,
+    };
+  }
+
+  for (const quality of JPEG_QUALITIES) {
+    const jpeg = await sharp(composited)
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality, mozjpeg: true })
+      .toBuffer();
+    if (jpeg.length <= limits.maxBytes) {
+      return {
+        ...image,
+        data: jpeg.toString("base64"),
+        mediaType: "image/jpeg",
+        byteLength: jpeg.length,
+      };
+    }
+  }
+
+  throw new ImageProcessingError(
+    `注釈付き画像を${limits.maxBytes}バイト以内に圧縮できませんでした`
+  );
+}
+
+// レスポンスに含める画像情報
+export function describeNormalizedImage(image: NormalizedImage) {
+  return {
+    source_format: image.sourceFormat,
+    media_type: image.mediaType,
+    width: image.width,
+    height: image.height,
+    original_width: image.originalWidth,
+    original_height: image.originalHeight,
+    bytes: image.byteLength,
+  };
+}
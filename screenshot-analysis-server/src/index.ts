@@ -8,30 +8,299 @@ import {
   ListToolsRequestSchema,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
-import axios from "axios";
-
-interface TutorialStep {
-  id: string;
-  text: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  description: string;
-}
-
-interface AnalysisResult {
-  message: string;
-  tutorial_steps: TutorialStep[];
+import {
+  AnalysisCache,
+  cacheVariant,
+  loadAnalysisCacheOptions,
+  perceptualHash,
+} from "./analysisCache.js";
+import { relocateAnnotations, supplementAnnotations } from "./annotations.js";
+import {
+  CallOptions,
+  deadlineFromArgs,
+  ResilientApiClient,
+} from "./apiClient.js";
+import { loadGreyscale, snapRect } from "./boxSnapping.js";
+import {
+  calibrationOverlaySvg,
+  DEFAULT_CALIBRATION_OPTIONS,
+  MAX_CALIBRATION_ITERATIONS,
+  resolveCalibrationOptions,
+} from "./calibration.js";
+import {
+  buildDisplayLayout,
+  CoordinateMapping,
+  deriveCoordinateMapping,
+  describeCoordinateMapping,
+  DisplayLayout,
+  imageAnnotationToLogical,
+  imageRectToLogical,
+  layoutGeometry,
+  locateOnDisplay,
+  logicalRectToImage,
+  Rect,
+  ScreenGeometry,
+  singleDisplayLayout,
+} from "./coordinateMapping.js";
+import { describeError, InvalidArgumentsError } from "./errors.js";
+import {
+  checkStepGeometry,
+  DEFAULT_GEOMETRY_CHECK_OPTIONS,
+  resolveGeometryCheckOptions,
+} from "./geometryChecks.js";
+import { loadHttpServerOptions, McpHttpServer } from "./httpTransport.js";
+import { computeImageDiff, ImageDiff, rectsIntersect } from "./imageDiff.js";
+import {
+  cropRegion,
+  describeNormalizedImage,
+  normalizeImage,
+  NormalizedImage,
+  overlaySvg,
+} from "./imageProcessing.js";
+import {
+  classifyScreenRegion,
+  CorrectionKey,
+  LearnedCorrectionStore,
+  loadCorrectionStorePath,
+} from "./learnedCorrections.js";
+import {
+  CancelledError,
+  createToolContext,
+  throwIfAborted,
+  ToolContext,
+} from "./progress.js";
+import {
+  ANNOTATIONS_EXAMPLE,
+  ANNOTATIONS_INSTRUCTION,
+  MACOS_UI_STRUCTURE,
+  screenInfoSection,
+} from "./prompts.js";
+import {
+  createProvider,
+  loadProviderConfig,
+  VisionProvider,
+} from "./providers/index.js";
+import {
+  loadRedactionOptions,
+  parseRedactRegions,
+  Redaction,
+  RedactionResult,
+  redactImage,
+  resolveRedactionOptions,
+} from "./redaction.js";
+import {
+  cropRectToImage,
+  DEFAULT_REFINEMENT_OPTIONS,
+  refinementRegion,
+} from "./refinement.js";
+import {
+  AnalysisResult,
+  analysisResultSpec,
+  AnalysisStep,
+  CalibrationResult,
+  calibrationResultSpec,
+  NextStepResult,
+  nextStepSpec,
+  RefinedLocation,
+  refinedLocationSpec,
+  StepCompletion,
+  stepCompletionSpec,
+  TutorialPlan,
+  tutorialPlanSpec,
+  VerificationResult,
+  verificationResultSpec,
+} from "./schemas.js";
+import {
+  LOCALIZATION_MODES,
+  LocalizationStrategy,
+  parseLocalizationMode,
+  prepareLocalization,
+} from "./setOfMarks.js";
+import { requestStructured } from "./structuredOutput.js";
+import {
+  DEFAULT_TEMPLATE_MATCH_OPTIONS,
+  findTemplateMatches,
+  TemplateMatch,
+} from "./templateMatching.js";
+import {
+  describeProgress,
+  TutorialSession,
+  TutorialSessionStore,
+} from "./tutorialSession.js";
+import {
+  AppliedCorrection,
+  describeAction,
+  StepAction,
+  StepRefinement,
+  StepSnapping,
+  TutorialStep,
+} from "./types.js";
+import {
+  matchUIElement,
+  parseUIElements,
+  UIElement,
+  uiElementsSection,
+} from "./uiElements.js";
+import { loadUsageTrackerOptions, UsageTracker } from "./usageTracking.js";
+
+// 画面ジオメトリの入力（analyze_screenshot と next_step で共通）
+const SCREEN_GEOMETRY_PROPERTIES = {
+  screen_width: {
+    type: "number",
+    description: "論理スクリーン幅（displays未指定時は必須）",
+  },
+  screen_height: {
+    type: "number",
+    description: "論理スクリーン高さ（displays未指定時は必須）",
+  },
+  scale_factor: {
+    type: "number",
+    default: 2.0,
+    description:
+      "Retinaディスプレイのスケールファクター（座標変換は画像の実ピクセル数から求め、この値は整合性チェックに使用）",
+  },
+  displays: {
+    type: "array",
+    description:
+      "複数ディスプレイ構成（指定時はscreen_width/screen_heightより優先）。フレームはメインディスプレイ左上を原点とするグローバル論理座標",
+    items: {
+      type: "object",
+      properties: {
+        id: {
+          type: ["string", "number"],
+          description: "ディスプレイID",
+        },
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+        scale_factor: {
+          type: "number",
+          default: 2.0,
+          description: "ディスプレイごとのバッキングスケール",
+        },
+      },
+      required: ["id", "x", "y", "width", "height"],
+    },
+  },
+};
+
+// アップロード前に隠す領域（スクリーンショットをモデルに送るツールで共通）
+const REDACTION_PROPERTIES = {
+  redact_regions: {
+    type: "array",
+    description:
+      "モデルに送る前に隠す領域（グローバル論理座標）。隠した領域はレスポンスの redactions に列挙されます",
+    items: {
+      type: "object",
+      properties: {
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+        label: { type: "string", description: "レスポンスに載せる名前" },
+      },
+      required: ["x", "y", "width", "height"],
+    },
+  },
+  redaction: {
+    type: "object",
+    description:
+      "隠し方と自動で隠す領域の設定（省略した項目はサーバーの設定 REDACTION_* に従う）",
+    properties: {
+      method: {
+        type: "string",
+        enum: ["fill", "blur"],
+        description: "fill: 黒で塗りつぶす / blur: 読めない程度にぼかす",
+      },
+      zones: {
+        type: "array",
+        description:
+          "各ディスプレイで常に隠す領域。menu_bar_clock / notifications、または角（anchor）からの位置 {anchor, x, y, width, height}",
+        items: { type: ["string", "object"] },
+      },
+      detect_password_fields: {
+        type: "boolean",
+        description: "伏せ字（●●●●）の並ぶ入力欄を画像から検出して隠す",
+      },
+    },
+    additionalProperties: false,
+  },
+};
+
+// analyze_screenshot などが返したステップを入力として受け取るときのスキーマ
+const STEP_INPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    text: { type: "string" },
+    x: { type: "number" },
+    y: { type: "number" },
+    width: { type: "number" },
+    height: { type: "number" },
+    description: { type: "string" },
+  },
+  required: ["text", "x", "y", "width", "height"],
+};
+
+const APP_NAME_PROPERTY = {
+  type: "string",
+  description:
+    "前面アプリ名（学習済み補正をアプリごとに分けるために使用、省略可）",
+};
+
+const DEADLINE_PROPERTY = {
+  deadline_ms: {
+    type: "number",
+    description:
+      "リトライを含む全体の締め切り（ミリ秒）。超過するとdeadline_exceededを返します",
+  },
+};
+
+// 変化領域が対象要素のこの距離（ピクセル）以内にあれば「対象付近が変化した」とみなす
+const TARGET_CHANGE_MARGIN = 24;
+
+// create_test_tutorial が返す固定ステップの数（操作の種類と同数）
+const TEST_TUTORIAL_STEP_COUNT = 7;
+
+// 後処理（精密化・吸着）の結果を持ったモデル出力のステップ（座標は送信画像のピクセル座標）
+type ProcessedStep = AnalysisStep & {
+  refinement?: StepRefinement;
+  snapping?: StepSnapping;
+};
+
+interface PreparedScreenshot {
+  image: NormalizedImage;
+  layout: DisplayLayout;
+  geometry: ScreenGeometry;
+  mapping: CoordinateMapping;
+  warnings: string[];
+  imageData: string; // 秘匿領域を隠した後の受信画像（フル解像度の切り出しに使う）
+  redactions: Redaction[];
 }
 
 class ScreenshotAnalysisServer {
-  private server: Server;
-  private claudeApiKey: string;
-  private claudeApiUrl: string = "https://api.anthropic.com/v1/messages";
+  private provider: VisionProvider;
+  private apiClient: ResilientApiClient;
+  private tutorialSessions = new TutorialSessionStore();
+  private learnedCorrections = new LearnedCorrectionStore(
+    loadCorrectionStorePath()
+  );
+  private analysisCache = new AnalysisCache(loadAnalysisCacheOptions());
+  private usageTracker = new UsageTracker(loadUsageTrackerOptions());
+  private redactionOptions = loadRedactionOptions();
+
+  constructor(provider?: VisionProvider) {
+    this.provider = provider ?? createProvider(loadProviderConfig());
+    this.apiClient = new ResilientApiClient(this.provider);
+    console.error(
+      `🧠 ビジョンモデル: ${this.provider.name} (${this.provider.model})`
+    );
+  }
 
-  constructor() {
-    this.server = new Server(
+  // MCPセッションごとのServerを作る。キャッシュ等の状態はこのインスタンスで共有する
+  createServer(sessionId: string = "stdio"): Server {
+    const server = new Server(
       {
         name: "screenshot-analysis-server",
         version: "1.0.0",
@@ -42,18 +311,12 @@ class ScreenshotAnalysisServer {
         },
       }
     );
-
-    this.claudeApiKey = process.env.CLAUDE_API_KEY || "";
-
-    if (!this.claudeApiKey) {
-      console.error("⚠️ CLAUDE_API_KEY環境変数が設定されていません");
-    }
-
-    this.setupToolHandlers();
+    this.setupToolHandlers(server, sessionId);
+    return server;
   }
 
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupToolHandlers(server: Server, sessionId: string) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: [
           {
@@ -71,26 +334,112 @@ class ScreenshotAnalysisServer {
                   type: "string",
                   description: "ユーザーからの質問",
                 },
-                screen_width: {
-                  type: "number",
-                  description: "論理スクリーン幅",
+                app_name: APP_NAME_PROPERTY,
+                use_cache: {
+                  type: "boolean",
+                  default: true,
+                  description:
+                    "同じ質問・引数で見た目がほぼ同じ画面の結果がキャッシュにあれば、モデルを呼ばずにそれを返す（レスポンスの cache.hit で判別）",
                 },
-                screen_height: {
-                  type: "number",
-                  description: "論理スクリーン高さ",
+                apply_learned_corrections: {
+                  type: "boolean",
+                  default: true,
+                  description:
+                    "verify_overlay_accuracy の履歴から学習した補正を枠に適用する",
                 },
-                scale_factor: {
-                  type: "number",
-                  default: 2.0,
-                  description: "Retinaディスプレイのスケールファクター",
+                snap_to_edges: {
+                  type: "boolean",
+                  default: false,
+                  description:
+                    "API呼び出しなしの画素解析で、各枠を近傍のUI要素の境界（枠線・背景との境目）に吸着させる",
+                },
+                refine: {
+                  type: "boolean",
+                  default: false,
+                  description:
+                    "各ステップの周辺をフル解像度で切り出して再検出し、枠を精密化する（メニューバーのアイコンやウィンドウボタンなど小さい要素向け。ステップごとにモデル呼び出しが1回増えます）",
+                },
+                ui_elements: {
+                  type: "array",
+                  description:
+                    "アクセシビリティツリーから読み取った画面上の要素。指定すると、モデルが示した要素を名前と位置で照合し、一致した要素の実フレームで枠を置き換える（各ステップの coordinate_source に座標の出どころを記録）",
+                  items: {
+                    type: "object",
+                    properties: {
+                      role: {
+                        type: "string",
+                        description: "AXRole（例: AXButton）",
+                      },
+                      title: {
+                        type: "string",
+                        description: "要素の表示名（AXTitle / AXDescription）",
+                      },
+                      frame: {
+                        type: "object",
+                        description: "グローバル論理座標のフレーム",
+                        properties: {
+                          x: { type: "number" },
+                          y: { type: "number" },
+                          width: { type: "number" },
+                          height: { type: "number" },
+                        },
+                        required: ["x", "y", "width", "height"],
+                      },
+                    },
+                    required: ["role", "title", "frame"],
+                  },
+                },
+                geometry_checks: {
+                  type: "object",
+                  description:
+                    "座標変換後の枠の点検（画面内への切り詰め・壊れた枠の削除・最小/最大サイズ・重複の除去）。行った変更はレスポンスの adjustments に列挙されます",
+                  properties: {
+                    enabled: { type: "boolean", default: true },
+                    clamp_to_screen: {
+                      type: "boolean",
+                      default: DEFAULT_GEOMETRY_CHECK_OPTIONS.clampToScreen,
+                      description: "画面からはみ出した部分を切り詰める",
+                    },
+                    min_size: {
+                      type: "number",
+                      default: DEFAULT_GEOMETRY_CHECK_OPTIONS.minSize,
+                      description:
+                        "幅・高さの下限（論理ポイント）。下回る枠は中心を保って広げる",
+                    },
+                    max_area_ratio: {
+                      type: "number",
+                      default: DEFAULT_GEOMETRY_CHECK_OPTIONS.maxAreaRatio,
+                      description:
+                        "ディスプレイ面積に対する枠の面積の上限（0〜1）。超える枠は削除",
+                    },
+                    overlap_threshold: {
+                      type: "number",
+                      default: DEFAULT_GEOMETRY_CHECK_OPTIONS.overlapThreshold,
+                      description:
+                        "同じ操作のステップ同士のIoUがこれ以上なら重複とみなす",
+                    },
+                    overlap_strategy: {
+                      type: "string",
+                      enum: ["suppress", "merge", "off"],
+                      default: DEFAULT_GEOMETRY_CHECK_OPTIONS.overlapStrategy,
+                      description:
+                        "重複の扱い。suppress: 後のステップを削除 / merge: 両方を囲む枠にまとめる / off: そのまま",
+                    },
+                  },
+                  additionalProperties: false,
+                },
+                localization_mode: {
+                  type: "string",
+                  enum: LOCALIZATION_MODES,
+                  default: "direct",
+                  description:
+                    "位置の答えさせ方。direct: ピクセル座標 / grid: 座標グリッドを描いてセル番地で回答 / marks: 候補領域に番号を振って番号で回答",
                 },
+                ...SCREEN_GEOMETRY_PROPERTIES,
+                ...REDACTION_PROPERTIES,
+                ...DEADLINE_PROPERTY,
               },
-              required: [
-                "image_data",
-                "question",
-                "screen_width",
-                "screen_height",
-              ],
+              required: ["image_data", "question"],
               additionalProperties: false,
             },
           },
@@ -116,6 +465,20 @@ class ScreenshotAnalysisServer {
                     width: { type: "number" },
                     height: { type: "number" },
                     description: { type: "string" },
+                    learned_correction: {
+                      type: "object",
+                      description:
+                        "analyze_screenshot が枠に適用した学習済み補正（ステップの learned_correction をそのまま渡す）。補正前の予測に対するずれとして記録するために使います",
+                      properties: {
+                        dx: { type: "number" },
+                        dy: { type: "number" },
+                        dw: { type: "number" },
+                        dh: { type: "number" },
+                        samples: { type: "number" },
+                        scope: { type: "string", enum: ["app", "region"] },
+                      },
+                      required: ["dx", "dy", "dw", "dh"],
+                    },
                   },
                   required: [
                     "text",
@@ -126,39 +489,244 @@ class ScreenshotAnalysisServer {
                     "description",
                   ],
                 },
-                screen_width: {
+                app_name: APP_NAME_PROPERTY,
+                ...SCREEN_GEOMETRY_PROPERTIES,
+                ...REDACTION_PROPERTIES,
+                ...DEADLINE_PROPERTY,
+              },
+              required: ["image_data", "original_prediction"],
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "create_test_tutorial",
+            description: "テスト用の固定座標チュートリアルステップを生成します",
+            inputSchema: {
+              type: "object",
+              properties: {
+                count: {
                   type: "number",
-                  description: "論理スクリーン幅",
+                  default: TEST_TUTORIAL_STEP_COUNT,
+                  maximum: TEST_TUTORIAL_STEP_COUNT,
+                  description:
+                    "生成するテストステップ数（操作の種類ごとに1つ、最大7個）",
+                },
+              },
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "start_tutorial",
+            description:
+              "目標（例: デフォルトブラウザを変更する）を受け取り、複数画面にまたがる操作計画を立ててチュートリアルセッションを開始します",
+            inputSchema: {
+              type: "object",
+              properties: {
+                goal: {
+                  type: "string",
+                  description: "ユーザーが達成したいこと",
+                },
+                ...DEADLINE_PROPERTY,
+              },
+              required: ["goal"],
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "next_step",
+            description:
+              "現在のスクリーンショットから、チュートリアルセッションで次に行うべき操作を1つと全体の進捗を返します",
+            inputSchema: {
+              type: "object",
+              properties: {
+                session_id: {
+                  type: "string",
+                  description: "start_tutorialで発行されたセッションID",
+                },
+                image_data: {
+                  type: "string",
+                  description: "現在の画面のbase64エンコードされた画像データ",
+                },
+                ...SCREEN_GEOMETRY_PROPERTIES,
+                ...REDACTION_PROPERTIES,
+                ...DEADLINE_PROPERTY,
+              },
+              required: ["session_id", "image_data"],
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "end_tutorial",
+            description:
+              "チュートリアルセッションを終了し、サーバー側の状態を破棄します",
+            inputSchema: {
+              type: "object",
+              properties: {
+                session_id: {
+                  type: "string",
+                  description: "終了するセッションID",
+                },
+              },
+              required: ["session_id"],
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "check_step_completed",
+            description:
+              "操作前後のスクリーンショットを比較し、チュートリアルステップが完了したか（completed / not_yet / went_wrong）を判定します",
+            inputSchema: {
+              type: "object",
+              properties: {
+                before_image: {
+                  type: "string",
+                  description: "操作前のbase64エンコードされた画像データ",
+                },
+                after_image: {
+                  type: "string",
+                  description: "操作後のbase64エンコードされた画像データ",
+                },
+                step: {
+                  ...STEP_INPUT_SCHEMA,
+                  description:
+                    "判定対象のステップ（analyze_screenshot / next_step が返したもの。座標はグローバル論理座標）",
+                },
+                ...SCREEN_GEOMETRY_PROPERTIES,
+                ...REDACTION_PROPERTIES,
+                ...DEADLINE_PROPERTY,
+              },
+              required: ["before_image", "after_image", "step"],
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "calibrate_steps",
+            description:
+              "スクリーンショットに予測枠をサーバー側で描き込んでモデルに評価させ、補正を繰り返して全ステップの位置を校正します",
+            inputSchema: {
+              type: "object",
+              properties: {
+                image_data: {
+                  type: "string",
+                  description:
+                    "オーバーレイを表示していない状態のbase64エンコードされた画像データ",
                 },
-                screen_height: {
+                tutorial_steps: {
+                  type: "array",
+                  items: STEP_INPUT_SCHEMA,
+                  description:
+                    "校正するステップ（analyze_screenshot が返したもの。座標はグローバル論理座標）",
+                },
+                accuracy_threshold: {
                   type: "number",
-                  description: "論理スクリーン高さ",
+                  default: DEFAULT_CALIBRATION_OPTIONS.accuracyThreshold,
+                  description:
+                    "全ステップの精度スコアがこの値以上になったら終了（0〜1）",
                 },
-                scale_factor: {
+                max_iterations: {
                   type: "number",
-                  default: 2.0,
-                  description: "Retinaディスプレイのスケールファクター",
+                  default: DEFAULT_CALIBRATION_OPTIONS.maxIterations,
+                  maximum: MAX_CALIBRATION_ITERATIONS,
+                  description: "評価と補正の最大反復回数",
                 },
+                ...SCREEN_GEOMETRY_PROPERTIES,
+                ...REDACTION_PROPERTIES,
+                ...DEADLINE_PROPERTY,
               },
-              required: [
-                "image_data",
-                "original_prediction",
-                "screen_width",
-                "screen_height",
-              ],
+              required: ["image_data", "tutorial_steps"],
               additionalProperties: false,
             },
           },
           {
-            name: "create_test_tutorial",
-            description: "テスト用の固定座標チュートリアルステップを生成します",
+            name: "find_template",
+            description:
+              "参照画像（アイコンや保存済みの切り出し）と同じ見た目の箇所をスクリーンショットから探します。画素の照合のみで、APIキーなしで動作します",
             inputSchema: {
               type: "object",
               properties: {
-                count: {
+                image_data: {
+                  type: "string",
+                  description: "base64エンコードされた画像データ",
+                },
+                template_data: {
+                  type: "string",
+                  description:
+                    "探したい見た目のbase64エンコードされた画像（スクリーンショットと同じ画素密度の切り出しを想定。0.5〜2倍の大きさの違いまで照合します）",
+                },
+                label: {
+                  type: "string",
+                  description: "返すステップの text（省略時は「一致箇所」）",
+                },
+                min_score: {
+                  type: "number",
+                  default: DEFAULT_TEMPLATE_MATCH_OPTIONS.minScore,
+                  description: "一致とみなす正規化相互相関の下限（0〜1）",
+                },
+                max_results: {
                   type: "number",
-                  default: 3,
-                  description: "生成するテストステップ数",
+                  default: DEFAULT_TEMPLATE_MATCH_OPTIONS.maxResults,
+                  description: "返す一致箇所の最大数",
+                },
+                ...SCREEN_GEOMETRY_PROPERTIES,
+              },
+              required: ["image_data", "template_data"],
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "get_learned_corrections",
+            description:
+              "verify_overlay_accuracy の履歴から学習した座標補正（解像度・スケール・領域・アプリごと）を一覧します",
+            inputSchema: {
+              type: "object",
+              properties: {},
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "get_usage_stats",
+            description:
+              "モデル呼び出しのトークン数・画像サイズ・所要時間・推定費用を日別・ツール別・セッション別に集計し、予算の残りを返します",
+            inputSchema: {
+              type: "object",
+              properties: {
+                days: {
+                  type: "integer",
+                  minimum: 1,
+                  maximum: 62,
+                  default: 7,
+                  description: "集計する日数（今日を含む）",
+                },
+                current_session_only: {
+                  type: "boolean",
+                  default: false,
+                  description:
+                    "この接続（MCPセッション）の呼び出しだけを集計する",
+                },
+              },
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "clear_analysis_cache",
+            description:
+              "analyze_screenshot の結果キャッシュ（ディスクに保存している場合はそれも）を削除します",
+            inputSchema: {
+              type: "object",
+              properties: {},
+              additionalProperties: false,
+            },
+          },
+          {
+            name: "reset_learned_corrections",
+            description: "学習した座標補正を削除します",
+            inputSchema: {
+              type: "object",
+              properties: {
+                key_prefix: {
+                  type: "string",
+                  description:
+                    "削除するキーの前方一致（例: 1512x982@2）。省略時はすべて削除",
                 },
               },
               additionalProperties: false,
@@ -168,20 +736,58 @@ class ScreenshotAnalysisServer {
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const ctx: ToolContext = {
+        ...createToolContext(
+          server,
+          request.params._meta?.progressToken,
+          extra.signal
+        ),
+        usage: this.usageTracker.meter(name, sessionId),
+      };
 
       try {
         switch (name) {
           case "analyze_screenshot":
-            return await this.analyzeScreenshot(args);
+            return await this.analyzeScreenshot(args, ctx);
 
           case "verify_overlay_accuracy":
-            return await this.verifyOverlayAccuracy(args);
+            return await this.verifyOverlayAccuracy(args, ctx);
 
           case "create_test_tutorial":
             return await this.createTestTutorial(args);
 
+          case "start_tutorial":
+            return await this.startTutorial(args, ctx);
+
+          case "next_step":
+            return await this.nextStep(args, ctx);
+
+          case "end_tutorial":
+            return await this.endTutorial(args);
+
+          case "check_step_completed":
+            return await this.checkStepCompleted(args, ctx);
+
+          case "calibrate_steps":
+            return await this.calibrateSteps(args, ctx);
+
+          case "find_template":
+            return await this.findTemplate(args, ctx);
+
+          case "get_learned_corrections":
+            return await this.getLearnedCorrections();
+
+          case "reset_learned_corrections":
+            return await this.resetLearnedCorrections(args);
+
+          case "clear_analysis_cache":
+            return await this.clearAnalysisCache();
+
+          case "get_usage_stats":
+            return await this.getUsageStats(args, sessionId);
+
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -199,37 +805,83 @@ class ScreenshotAnalysisServer {
     });
   }
 
-  private async analyzeScreenshot(args: any) {
-    const {
-      image_data,
-      question,
-      screen_width,
-      screen_height,
-      scale_factor = 2.0,
-    } = args;
+  private async analyzeScreenshot(args: any, ctx: ToolContext) {
+    const { question } = args;
 
     console.error("🤖 Claude API分析開始...");
 
-    const systemPrompt = `あなたはmacOSのUI構造を深く理解するエキスパートアシスタントです。
+    const callOptions = this.callOptions(args, ctx);
 
-スクリーン情報:
-- 論理解像度: ${screen_width}x${screen_height}
-- スケールファクタ: ${scale_factor}
-- このスクリーンショットは物理ピクセルで撮影されています
+    let screenshot: PreparedScreenshot;
+    let localization: LocalizationStrategy;
+    let uiElements: UIElement[];
+    let cacheKey: { variant: string; hash: string } | null = null;
+    try {
+      uiElements = parseUIElements(args.ui_elements);
+      screenshot = await this.prepareScreenshot(args, ctx);
 
-## macOSのUI構造を正確に理解してください：
+      if (this.analysisCache.enabled && args.use_cache !== false) {
+        cacheKey = {
+          variant: cacheVariant(args, screenshot.image),
+          hash: await perceptualHash(screenshot.image),
+        };
+        const hit = await this.analysisCache.lookup(
+          cacheKey.variant,
+          cacheKey.hash
+        );
+        if (hit) {
+          console.error(
+            `♻️ 解析キャッシュを使用 (${Math.round(
+              hit.ageMs / 1000
+            )}秒前の結果, ハッシュの差 ${hit.distance}ビット)`
+          );
+          const checked = await this.finishSteps(
+            hit.payload.tutorial_steps as TutorialStep[],
+            screenshot,
+            args
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  ...hit.payload,
+                  // 隠した領域と警告はこの呼び出しの画像で求めたものを返す
+                  warnings: screenshot.warnings,
+                  redactions: screenshot.redactions,
+                  tutorial_steps: checked.steps,
+                  adjustments: checked.adjustments,
+                  cache: {
+                    hit: true,
+                    age_ms: hit.ageMs,
+                    distance: hit.distance,
+                  },
+                }),
+              },
+            ],
+          };
+        }
+      }
 
-### 1. メニューバー（画面最上部、通常y=0-30付近）
-- アプリ名、ファイル、編集、表示などのメニュー項目
-- 右側にWi-Fi、バッテリー、時計などのシステムメニュー
+      // グリッドやマークは送信画像と同じサイズで描き込むので、座標の対応は変わらない
+      localization = await prepareLocalization(
+        parseLocalizationMode(args.localization_mode),
+        screenshot.image
+      );
+      throwIfAborted(ctx.signal);
+    } catch (error) {
+      return this.errorResponse(error, { tutorial_steps: [] });
+    }
+    const { image, mapping } = screenshot;
+    const warnings = [...screenshot.warnings, ...localization.warnings];
+    const elementsSection = uiElementsSection(uiElements);
 
-### 2. アプリケーションウィンドウ（画面中央部）
-- 実際に起動中のアプリケーション（Finder、Safari、VSCodeなど）
-- 各ウィンドウには左上に赤・黄・緑の丸ボタン（ウィンドウコントロール）
+    const systemPrompt = `あなたはmacOSのUI構造を深く理解するエキスパートアシスタントです。
 
-### 3. Dock（画面下部）
-- アプリケーションアイコンが並んでいる領域
+${screenInfoSection(screenshot.geometry, screenshot.layout, image)}
 
+${MACOS_UI_STRUCTURE}
+${elementsSection && `\n${elementsSection}\n`}
 ## 質問の意図を正確に理解してください：
 
 **「アプリが起動している」「どのようなアプリ」**
@@ -247,7 +899,17 @@ class ScreenshotAnalysisServer {
 1. 質問の意図に最も適合するUI要素のみを検出
 2. メニューバー項目の過度な検出を避ける
 3. アプリウィンドウとメニューバーを明確に区別する
-4. 座標は物理ピクセル座標で指定（スクリーンショットの実際のピクセル座標）
+4. ${localization.instruction}
+5. 複数の操作が必要な場合は、実行順に order を1から振る
+6. 各ステップには操作の種類（action.kind）を指定する
+   - click / double_click / right_click: 枠で示した要素をクリック
+   - drag: 枠の要素を ${localization.dragTo}までドラッグ
+   - type_text: 枠の入力欄に text を入力
+   - keyboard_shortcut: keys のキーを同時に押す（例: ["cmd", "space"]）
+   - scroll: 枠の領域を scroll_direction（up/down/left/right）にスクロール
+7. precondition に操作前に満たしているべき状態、expected_result に操作後に期待される画面の変化を書く${
+      localization.annotations ? `\n${ANNOTATIONS_INSTRUCTION}` : ""
+    }
 
 以下のJSON形式で回答してください：
 {
@@ -255,519 +917,1496 @@ class ScreenshotAnalysisServer {
   "tutorial_steps": [
     {
       "text": "UI要素の名前",
-      "x": 100,
-      "y": 100,
-      "width": 200,
-      "height": 50,
-      "description": "詳細説明"
+      ${localization.exampleFields}
+      "description": "詳細説明",
+      "order": 1,
+      "action": { "kind": "click" },
+      "precondition": "Finderが前面にある",
+      "expected_result": "ファイルメニューが開く"${
+        localization.annotations ? `,\n      ${ANNOTATIONS_EXAMPLE}` : ""
+      }
     }
   ]
 }
 
-座標は画面左上を(0,0)とした絶対座標で指定してください。
 UI要素が見つからない場合は、tutorial_stepsを空の配列にしてください。`;
 
-    // リトライ機能付きでClaude API呼び出し
-    let response: any = null;
-    let lastError: any = null;
-    const maxRetries = 3;
-    const retryDelays = [2000, 5000, 10000]; // 2秒、5秒、10秒待機
+    let analysisResult: AnalysisResult;
+    try {
+      const { value, response, attempts } = await requestStructured(
+        (request) => this.apiClient.complete(request, callOptions),
+        {
+          system: systemPrompt,
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "image", image: localization.image },
+                { type: "text", text: question },
+              ],
+            },
+          ],
+          maxTokens: 1500,
+        },
+        localization.spec
+      );
+      analysisResult = value;
+      console.error(
+        `✅ モデル応答受信 (${response.model}, ${attempts}回目で検証成功)`
+      );
+    } catch (error) {
+      return this.errorResponse(error, { tutorial_steps: [] });
+    }
 
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        console.error(`🔄 Claude API呼び出し試行 ${attempt + 1}/${maxRetries}`);
+    ctx.progress("parsing", "座標を変換しています");
+    console.error(
+      "📋 検証済みの分析結果:",
+      JSON.stringify(analysisResult, null, 2)
+    );
 
-        response = await axios.post(
-          this.claudeApiUrl,
-          {
-            model: "claude-3-5-sonnet-20241022",
-            max_tokens: 1500,
-            messages: [
+    let steps: ProcessedStep[] = analysisResult.tutorial_steps;
+    if (args.refine === true && steps.length > 0) {
+      try {
+        steps = await this.refineSteps(steps, args, screenshot, ctx);
+      } catch (error) {
+        return this.errorResponse(error, { tutorial_steps: [] });
+      }
+    }
+
+    if (args.snap_to_edges === true && steps.length > 0) {
+      ctx.progress("postprocessing", "枠をUI要素の境界に吸着しています");
+      steps = await this.snapSteps(steps, screenshot);
+    }
+
+    let convertedSteps = this.convertSteps(steps, screenshot);
+    if (uiElements.length > 0) {
+      convertedSteps = this.fuseWithUIElements(
+        convertedSteps,
+        uiElements,
+        screenshot
+      );
+    }
+    const checked = await this.finishSteps(convertedSteps, screenshot, args);
+
+    console.error(
+      `🎯 解析結果: ${checked.steps.length}個のチュートリアルステップ`
+    );
+
+    // 学習済み補正は後から変わるので、キャッシュには補正前のステップを保存する
+    const payload = {
+      success: true,
+      message: analysisResult.message,
+      tutorial_steps: convertedSteps,
+      image_info: describeNormalizedImage(image),
+      coordinate_mapping: describeCoordinateMapping(mapping),
+      localization: localization.info,
+      warnings,
+      redactions: screenshot.redactions,
+    };
+    if (cacheKey) {
+      try {
+        await this.analysisCache.store(
+          cacheKey.variant,
+          cacheKey.hash,
+          payload
+        );
+      } catch (error) {
+        console.error("⚠️ 解析キャッシュの保存に失敗:", error);
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            ...payload,
+            tutorial_steps: checked.steps,
+            adjustments: checked.adjustments,
+            cache: { hit: false },
+          }),
+        },
+      ],
+    };
+  }
+
+  // 学習済み補正の適用と枠の点検（キャッシュから返す場合もその時点の学習内容でやり直す）
+  private async finishSteps(
+    steps: TutorialStep[],
+    screenshot: PreparedScreenshot,
+    args: any
+  ) {
+    const corrected =
+      args.apply_learned_corrections !== false
+        ? await this.applyLearnedCorrections(steps, screenshot, args.app_name)
+        : steps;
+
+    const checked = checkStepGeometry(
+      corrected,
+      screenshot.layout,
+      (step, rect) => this.relocateStep(step, rect, screenshot),
+      resolveGeometryCheckOptions(args.geometry_checks)
+    );
+    checked.adjustments.forEach((adjustment) =>
+      console.error(
+        `📏 ${adjustment.step_id}: ${adjustment.text} - ${adjustment.detail}`
+      )
+    );
+    return checked;
+  }
+
+  // 画面ジオメトリの解決・秘匿領域の除去・画像の正規化・座標対応の導出をまとめて行う
+  // 画像をモデルに送らないツールは redact: false で元の画像のまま扱う
+  private async prepareScreenshot(
+    args: any,
+    ctx: ToolContext,
+    redact: boolean = true
+  ): Promise<PreparedScreenshot> {
+    const layout = this.resolveDisplayLayout(args);
+    if (!layout) {
+      throw new InvalidArgumentsError(
+        "screen_width/screen_height または displays を指定してください"
+      );
+    }
+    const geometry = layoutGeometry(layout);
+
+    ctx.progress("image_preprocessing", "画像を正規化しています");
+    const { imageData, redactions } = redact
+      ? await this.redact(args.image_data, args, layout)
+      : { imageData: args.image_data, redactions: [] };
+    const image = await normalizeImage(imageData);
+    throwIfAborted(ctx.signal);
+
+    // scale_factorを信用せず、実際の画像ピクセル数から論理座標への対応を求める
+    const { mapping, warnings } = deriveCoordinateMapping(image, geometry);
+    warnings.forEach((warning) => console.error(`⚠️ ${warning}`));
+
+    return {
+      image,
+      layout,
+      geometry,
+      mapping,
+      warnings,
+      imageData,
+      redactions,
+    };
+  }
+
+  // 呼び出し元の指定・固定の領域・伏せ字の検出で見つけた領域を、アップロード前に隠す
+  private async redact(
+    imageData: string,
+    args: any,
+    layout: DisplayLayout
+  ): Promise<RedactionResult> {
+    const result = await redactImage(
+      imageData,
+      layout,
+      parseRedactRegions(args.redact_regions),
+      resolveRedactionOptions(args.redaction, this.redactionOptions)
+    );
+    if (result.redactions.length > 0) {
+      console.error(
+        `🕶️ ${result.redactions.length}か所を隠して送信: ${result.redactions
+          .map((redaction) => `${redaction.label} (${redaction.source})`)
+          .join(", ")}`
+      );
+    }
+    return result;
+  }
+
+  // 座標変換（画像ピクセル→グローバル論理→ディスプレイ内論理）
+  private convertSteps(
+    steps: ProcessedStep[],
+    screenshot: PreparedScreenshot,
+    idPrefix: string = "step"
+  ): TutorialStep[] {
+    // orderが無い・重複する場合は出力順を優先し、1から振り直す
+    const ordered = steps
+      .map((step, index) => ({ step, index }))
+      .sort(
+        (a, b) =>
+          (a.step.order ?? a.index + 1) - (b.step.order ?? b.index + 1) ||
+          a.index - b.index
+      )
+      .map(({ step }) => step);
+
+    return ordered.map((step, index) => {
+      const global = imageRectToLogical(step, screenshot.mapping);
+      const { display, local } = locateOnDisplay(global, screenshot.layout);
+      const action = this.convertAction(step.action, screenshot);
+      const annotations = supplementAnnotations(
+        { ...global, action },
+        step.annotations.map((annotation) =>
+          imageAnnotationToLogical(annotation, screenshot.mapping)
+        )
+      );
+      const converted: TutorialStep = {
+        id: `${idPrefix}_${index + 1}`,
+        text: step.text,
+        ...global,
+        description: step.description,
+        order: index + 1,
+        action,
+        precondition: step.precondition,
+        expected_result: step.expected_result,
+        annotations,
+        ...(step.refinement && { refinement: step.refinement }),
+        ...(step.snapping && { snapping: step.snapping }),
+        display_id: display.id,
+        local,
+        global,
+      };
+
+      console.error(
+        `📍 ${converted.id}: ${converted.text} (ディスプレイ: ${display.id})`
+      );
+      console.error(
+        `   座標: (${global.x.toFixed(1)}, ${global.y.toFixed(1)})`
+      );
+      console.error(
+        `   サイズ: ${global.width.toFixed(1)} x ${global.height.toFixed(1)}`
+      );
+      console.error(`   説明: ${converted.description}`);
+      console.error(`   操作: ${describeAction(converted.action)}`);
+      if (annotations.length > 0) {
+        console.error(
+          `   注釈: ${annotations
+            .map((annotation) => annotation.type)
+            .join(", ")}`
+        );
+      }
+
+      return converted;
+    });
+  }
+
+  // 予測枠の周辺をフル解像度で切り出し、拡大画像で位置を再検出する（coarse-to-fine）
+  private async refineSteps(
+    steps: AnalysisStep[],
+    args: any,
+    screenshot: PreparedScreenshot,
+    ctx: ToolContext
+  ): Promise<ProcessedStep[]> {
+    const { image, mapping } = screenshot;
+    const callOptions = this.callOptions(args, ctx);
+    const { minConfidence } = DEFAULT_REFINEMENT_OPTIONS;
+    const refined: ProcessedStep[] = [];
+
+    for (const [index, step] of steps.entries()) {
+      ctx.progress(
+        "postprocessing",
+        `「${step.text}」の位置を精密化しています (${index + 1}/${
+          steps.length
+        })`
+      );
+      const original = imageRectToLogical(step, mapping);
+      const region = refinementRegion(step, image);
+
+      let location: RefinedLocation;
+      let crop: NormalizedImage;
+      try {
+        crop = await cropRegion(screenshot.imageData, region);
+        const { value } = await requestStructured(
+          (request) => this.apiClient.complete(request, callOptions),
+          {
+            system: `あなたはUI要素の位置を精密に特定するエキスパートです。
+
+画像はスクリーンショットの一部を${crop.width}x${
+              crop.height
+            }ピクセルに拡大したものです。
+この中から「${step.text}」（${
+              step.description || "説明なし"
+            }）を探し、要素の外接矩形をこの拡大画像のピクセル座標で答えてください。
+- 要素の見た目の境界（ボタンの背景・アイコンの輪郭）にぴったり合わせる
+- 拡大画像の中に見つからない場合は found を false にする`,
+            messages: [
               {
                 role: "user",
                 content: [
-                  {
-                    type: "image",
-                    source: {
-                      type: "base64",
-                      media_type: "image/jpeg",
-                      data: image_data,
-                    },
-                  },
-                  {
-                    type: "text",
-                    text: question,
-                  },
+                  { type: "image", image: crop },
+                  { type: "text", text: `「${step.text}」の正確な位置は？` },
                 ],
               },
             ],
-            system: systemPrompt,
+            maxTokens: 300,
           },
-          {
-            headers: {
-              "Content-Type": "application/json",
-              "anthropic-version": "2023-06-01",
-              "x-api-key": this.claudeApiKey,
-            },
-            timeout: 30000, // 30秒タイムアウト
-          }
+          refinedLocationSpec
         );
+        location = value;
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+        const { error: reason } = describeError(error);
+        console.error(`⚠️ 精密化に失敗: ${step.text} - ${reason}`);
+        refined.push({
+          ...step,
+          refinement: { applied: false, reason: `再検出に失敗: ${reason}` },
+        });
+        continue;
+      }
 
-        // 成功した場合はループを抜ける
-        console.error("✅ Claude API呼び出し成功");
-        break;
-      } catch (error: any) {
-        lastError = error;
-        const status = error.response?.status;
-        const shouldRetry =
-          status === 529 || status === 503 || status === 502 || !status;
+      if (!location.found || location.confidence < minConfidence) {
+        refined.push({
+          ...step,
+          refinement: {
+            applied: false,
+            confidence: location.confidence,
+            reason: location.found
+              ? "確信度が低いため元の枠を使用"
+              : "拡大画像内に要素が見つからない",
+          },
+        });
+        continue;
+      }
+
+      const rect = cropRectToImage(location, region, crop, image);
+      console.error(
+        `🔬 精密化: ${step.text} (${step.x.toFixed(1)}, ${step.y.toFixed(
+          1
+        )}) → (${rect.x.toFixed(1)}, ${rect.y.toFixed(1)})`
+      );
+      refined.push({
+        ...step,
+        ...rect,
+        refinement: {
+          applied: true,
+          confidence: location.confidence,
+          original,
+        },
+      });
+    }
+
+    return refined;
+  }
 
+  // API呼び出しなしで、各枠を近傍の明瞭な輝度境界に吸着させる
+  private async snapSteps(
+    steps: ProcessedStep[],
+    screenshot: PreparedScreenshot
+  ): Promise<ProcessedStep[]> {
+    const { image, mapping } = screenshot;
+    const grey = await loadGreyscale(image);
+
+    return steps.map((step) => {
+      const result = snapRect(grey, step);
+      const snapping: StepSnapping = {
+        applied: result.applied,
+        confidence: result.confidence,
+        dx: (result.rect.x - step.x) * mapping.scaleX,
+        dy: (result.rect.y - step.y) * mapping.scaleY,
+        dw: (result.rect.width - step.width) * mapping.scaleX,
+        dh: (result.rect.height - step.height) * mapping.scaleY,
+      };
+      console.error(
+        `🧲 吸着: ${step.text} ${
+          result.applied
+            ? `(${snapping.dx.toFixed(1)}, ${snapping.dy.toFixed(
+                1
+              )}) 移動, 確信度 ${result.confidence.toFixed(2)}`
+            : "明瞭な境界なし"
+        }`
+      );
+      return { ...step, ...result.rect, snapping };
+    });
+  }
+
+  // モデルが示した要素をアクセシビリティツリーの実在要素と照合し、一致すれば実フレームに置き換える
+  private fuseWithUIElements(
+    steps: TutorialStep[],
+    elements: UIElement[],
+    screenshot: PreparedScreenshot
+  ): TutorialStep[] {
+    return steps.map((step) => {
+      const match = matchUIElement(step, elements);
+      if (!match) {
         console.error(
-          `❌ Claude API呼び出し失敗 (試行 ${attempt + 1}): ${
-            status || "Network Error"
-          }`
+          `👁️ 一致する要素なし（画像から推定した枠を使用）: ${step.text}`
         );
+        return { ...step, coordinate_source: "visual" };
+      }
 
-        if (!shouldRetry || attempt === maxRetries - 1) {
-          console.error(
-            "🚫 リトライ不可能なエラーまたは最大試行回数に達しました"
-          );
-          break;
-        }
+      const { element } = match;
+      console.error(
+        `♿ 要素と照合: ${step.text} → ${element.title} (${
+          element.role
+        }, スコア ${match.score.toFixed(2)}, IoU ${match.iou.toFixed(2)})`
+      );
+      return {
+        ...this.relocateStep(step, element.frame, screenshot),
+        coordinate_source: "accessibility",
+        ui_element: {
+          role: element.role,
+          title: element.title,
+          score: match.score,
+          label_similarity: match.labelSimilarity,
+          iou: match.iou,
+        },
+      };
+    });
+  }
 
-        // 指数バックオフで待機
-        const delay = retryDelays[attempt] || 10000;
-        console.error(`⏰ ${delay / 1000}秒後にリトライします...`);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
+  // モデル出力の操作（nullを含む、画像座標）をクライアント向けの形に変換する
+  private convertAction(
+    action: AnalysisStep["action"],
+    screenshot: PreparedScreenshot
+  ): StepAction {
+    const converted: StepAction = { kind: action.kind };
+    if (action.kind === "drag" && action.drag_to) {
+      converted.drag_to = imageRectToLogical(
+        action.drag_to,
+        screenshot.mapping
+      );
+    }
+    if (action.kind === "type_text" && action.text) {
+      converted.text = action.text;
+    }
+    if (action.kind === "keyboard_shortcut" && action.keys) {
+      converted.keys = action.keys;
     }
+    if (action.kind === "scroll" && action.scroll_direction) {
+      converted.scroll_direction = action.scroll_direction;
+    }
+    return converted;
+  }
+
+  private async verifyOverlayAccuracy(args: any, ctx: ToolContext) {
+    const { image_data, original_prediction } = args;
+
+    console.error("🔍 AIによる自己校正開始...");
+    console.error("📊 原予測:", JSON.stringify(original_prediction, null, 2));
+
+    const callOptions = this.callOptions(args, ctx);
+
+    // 学習済み補正のキーを analyze_screenshot と同じディスプレイ構成から求める
+    const layout = this.resolveDisplayLayout(args);
+    if (!layout) {
+      return this.errorResponse(
+        new InvalidArgumentsError(
+          "screen_width/screen_height または displays を指定してください"
+        ),
+        { original_prediction }
+      );
+    }
+
+    let image: NormalizedImage;
+    let redactions: Redaction[];
+    try {
+      ctx.progress("image_preprocessing", "画像を正規化しています");
+      const redacted = await this.redact(image_data, args, layout);
+      redactions = redacted.redactions;
+      image = await normalizeImage(redacted.imageData);
+      throwIfAborted(ctx.signal);
+    } catch (error) {
+      return this.errorResponse(error, { original_prediction });
+    }
+
+    const systemPrompt = `あなたはAIの自己校正を行うエキスパートです。
+
+## 検証タスク：
+前回のAI分析で「${original_prediction.text}」の位置を以下のように予測しました：
+- 予測座標: (${original_prediction.x}, ${original_prediction.y})
+- 予測サイズ: ${original_prediction.width} x ${original_prediction.height}
+
+${screenInfoSection(layoutGeometry(layout), layout, image)}
+
+このスクリーンショットには、予測した位置に赤い枠が表示されています。
+この赤枠が実際のUI要素「${
+      original_prediction.text
+    }」を正確に囲んでいるかを検証してください。
+
+## 評価基準：
+1. **位置精度**: 赤枠がUI要素の中心部を正確に捉えているか
+2. **サイズ精度**: 赤枠のサイズがUI要素に適切か
+3. **全体的な精度**: ユーザーが理解しやすい位置にあるか
 
-    // エラーが発生した場合の処理
-    if (lastError && !response) {
-      console.error("💥 Claude API呼び出し最終的に失敗:", lastError.message);
+## 回答形式：
+{
+  "accuracy_score": 0.85,
+  "position_offset": {
+    "x": -10,
+    "y": 5
+  },
+  "size_correction": {
+    "width": 20,
+    "height": -5
+  },
+  "feedback": "赤枠は概ね正確ですが、少し左にずれています。",
+  "corrected_position": {
+    "x": ${original_prediction.x - 10},
+    "y": ${original_prediction.y + 5},
+    "width": ${original_prediction.width + 20},
+    "height": ${original_prediction.height - 5}
+  }
+}
 
-      // 529エラーの場合は特別なメッセージを返す
-      if (lastError.response?.status === 529) {
-        return {
-          content: [
+- accuracy_score: 0.0（完全に外れ）〜1.0（完璧）
+- position_offset: 必要な位置補正（ピクセル、論理座標）
+- size_correction: 必要なサイズ補正（ピクセル、論理座標）
+- feedback: 人間向けのフィードバック
+- corrected_position: 修正後の推奨座標（論理座標）。予測座標に position_offset と size_correction を加えた値
+- 数値に「+」記号を付けないでください`;
+
+    let verificationResult: VerificationResult;
+    try {
+      const { value } = await requestStructured(
+        (request) => this.apiClient.complete(request, callOptions),
+        {
+          system: systemPrompt,
+          messages: [
             {
-              type: "text",
-              text: JSON.stringify({
-                success: false,
-                error:
-                  "Claude APIサーバーが一時的に過負荷状態です。しばらく待ってから再試行してください。",
-                error_code: 529,
-                retry_suggested: true,
-                message:
-                  "API過負荷のため画面分析を実行できませんでした。数分後に再度お試しください。",
-                tutorial_steps: [],
-              }),
+              role: "user",
+              content: [
+                { type: "image", image },
+                {
+                  type: "text",
+                  text: "上記のスクリーンショットで赤枠の位置精度を評価してください。",
+                },
+              ],
             },
           ],
-        };
-      }
+          maxTokens: 1000,
+        },
+        verificationResultSpec
+      );
+      verificationResult = value;
+    } catch (error) {
+      return this.errorResponse(error, { original_prediction });
+    }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              success: false,
-              error: `Claude API分析に失敗しました: ${lastError.message}`,
-              tutorial_steps: [],
-            }),
-          },
-        ],
+    ctx.progress("parsing", "検証結果を整理しています");
+
+    // corrected_position が省略された場合は補正量から求める
+    if (!verificationResult.corrected_position) {
+      verificationResult.corrected_position = {
+        x: original_prediction.x + verificationResult.position_offset.x,
+        y: original_prediction.y + verificationResult.position_offset.y,
+        width:
+          original_prediction.width + verificationResult.size_correction.width,
+        height:
+          original_prediction.height +
+          verificationResult.size_correction.height,
       };
     }
 
-    // 成功した場合の処理
+    console.error("✅ 自己校正分析完了");
+    console.error("📋 検証結果:", JSON.stringify(verificationResult, null, 2));
+
+    const learning = await this.recordVerification(
+      args,
+      layout,
+      verificationResult.corrected_position,
+      verificationResult.accuracy_score
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            verification_result: verificationResult,
+            original_prediction: original_prediction,
+            image_info: describeNormalizedImage(image),
+            redactions,
+            learning,
+          }),
+        },
+      ],
+    };
+  }
+
+  // 検証結果を、学習済み補正を適用する前のモデル予測に対する差分として記録する
+  private async recordVerification(
+    args: any,
+    layout: DisplayLayout,
+    corrected: Rect,
+    accuracyScore: number
+  ) {
+    const { original_prediction } = args;
+    const applied: AppliedCorrection | undefined =
+      original_prediction.learned_correction;
+    const key = this.correctionKey(original_prediction, layout, args.app_name);
+
     try {
-      const responseText = response.data.content[0]?.text || "";
-      console.error("✅ Claude API応答受信");
+      await this.learnedCorrections.record(key, {
+        dx: corrected.x - original_prediction.x + (applied?.dx ?? 0),
+        dy: corrected.y - original_prediction.y + (applied?.dy ?? 0),
+        dw: corrected.width - original_prediction.width + (applied?.dw ?? 0),
+        dh: corrected.height - original_prediction.height + (applied?.dh ?? 0),
+        score: accuracyScore,
+        recordedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error("⚠️ 検証結果の保存に失敗:", error);
+      return { recorded: false, region: key.region };
+    }
+    return {
+      recorded: this.learnedCorrections.enabled,
+      region: key.region,
+    };
+  }
+
+  // 同じ解像度・領域（・アプリ）で学習した系統的なずれを枠に適用する
+  private async applyLearnedCorrections(
+    steps: TutorialStep[],
+    screenshot: PreparedScreenshot,
+    app?: string
+  ): Promise<TutorialStep[]> {
+    const corrected: TutorialStep[] = [];
+    for (const step of steps) {
+      // アクセシビリティの実フレームはずれないので補正しない
+      if (step.coordinate_source === "accessibility") {
+        corrected.push(step);
+        continue;
+      }
+      const fitted = await this.learnedCorrections.lookup(
+        this.correctionKey(step, screenshot.layout, app)
+      );
+      if (!fitted) {
+        corrected.push(step);
+        continue;
+      }
+
       console.error(
-        "🔍 Claude生応答（最初の500文字）:",
-        responseText.slice(0, 500)
+        `📐 学習済み補正を適用: ${step.text} (dx=${fitted.dx.toFixed(
+          1
+        )}, dy=${fitted.dy.toFixed(1)}, サンプル${fitted.samples}件)`
       );
+      const global = {
+        x: step.x + fitted.dx,
+        y: step.y + fitted.dy,
+        width: Math.max(1, step.width + fitted.dw),
+        height: Math.max(1, step.height + fitted.dh),
+      };
+      corrected.push({
+        ...this.relocateStep(step, global, screenshot),
+        learned_correction: {
+          dx: global.x - step.x,
+          dy: global.y - step.y,
+          dw: global.width - step.width,
+          dh: global.height - step.height,
+          samples: fitted.samples,
+          scope: fitted.scope,
+        },
+      });
+    }
+    return corrected;
+  }
 
-      // JSON部分を抽出
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const analysisResult: AnalysisResult = JSON.parse(jsonMatch[0]);
-        console.error(
-          "📋 抽出されたJSON:",
-          JSON.stringify(analysisResult, null, 2)
-        );
+  // 記録と適用で同じキーになるよう、グローバル座標の枠からディスプレイと領域を決める
+  private correctionKey(
+    global: Rect,
+    layout: DisplayLayout,
+    app?: string
+  ): CorrectionKey {
+    const { display, local } = locateOnDisplay(global, layout);
+    return {
+      screenWidth: display.frame.width,
+      screenHeight: display.frame.height,
+      scaleFactor: display.scaleFactor,
+      region: classifyScreenRegion(local, display.frame.height),
+      app,
+    };
+  }
 
-        // 座標変換（物理→論理）
-        const convertedSteps = analysisResult.tutorial_steps.map(
-          (step, index) => ({
-            id: `step_${index + 1}`,
-            text: step.text,
-            x: step.x / scale_factor,
-            y: step.y / scale_factor,
-            width: step.width / scale_factor,
-            height: step.height / scale_factor,
-            description: step.description,
-          })
-        );
+  private async getLearnedCorrections() {
+    const entries = await this.learnedCorrections.describe();
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            enabled: this.learnedCorrections.enabled,
+            path: this.learnedCorrections.path,
+            entries,
+          }),
+        },
+      ],
+    };
+  }
 
-        console.error(
-          `🎯 解析結果: ${convertedSteps.length}個のチュートリアルステップ`
+  private async resetLearnedCorrections(args: any) {
+    const { key_prefix } = args ?? {};
+    let removed: number;
+    try {
+      removed = await this.learnedCorrections.reset(key_prefix);
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+    console.error(`🧹 学習済み補正を削除: ${removed}件`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ success: true, removed }),
+        },
+      ],
+    };
+  }
+
+  private async getUsageStats(args: any, sessionId: string) {
+    const { days = 7, current_session_only = false } = args ?? {};
+    let stats;
+    try {
+      if (!Number.isInteger(days) || days < 1 || days > 62) {
+        throw new InvalidArgumentsError(
+          "days には1〜62の整数を指定してください"
         );
+      }
+      stats = await this.usageTracker.stats(
+        days,
+        current_session_only ? sessionId : undefined
+      );
+    } catch (error) {
+      return this.errorResponse(error);
+    }
 
-        // 各UI要素の詳細をログ出力
-        convertedSteps.forEach((step, index) => {
-          console.error(`📍 ステップ${index + 1}: ${step.text}`);
-          console.error(
-            `   座標: (${step.x.toFixed(1)}, ${step.y.toFixed(1)})`
-          );
-          console.error(
-            `   サイズ: ${step.width.toFixed(1)} x ${step.height.toFixed(1)}`
-          );
-          console.error(`   説明: ${step.description}`);
-        });
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            session: sessionId,
+            path: this.usageTracker.path,
+            ...stats,
+          }),
+        },
+      ],
+    };
+  }
+
+  private async clearAnalysisCache() {
+    let removed: number;
+    try {
+      removed = await this.analysisCache.clear();
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+    console.error(`🧹 解析キャッシュを削除: ${removed}件`);
 
-        return {
-          content: [
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ success: true, removed }),
+        },
+      ],
+    };
+  }
+
+  private async startTutorial(args: any, ctx: ToolContext) {
+    const { goal } = args;
+
+    console.error(`🗺️ チュートリアル計画作成: ${goal}`);
+
+    const callOptions = this.callOptions(args, ctx);
+
+    const systemPrompt = `あなたはmacOSの操作を丁寧に案内するチュートリアル作成のエキスパートです。
+
+ユーザーの目標を達成するために必要な操作を、画面の切り替わりごとの大まかな計画に分解してください。
+- 各項目は1〜2回のクリックやキー操作で完了する粒度にする
+- 一般的なmacOSの標準設定を前提にする（実際の画面は次のステップで確認する）
+- 計画は3〜10項目程度にする`;
+
+    let plan: TutorialPlan;
+    try {
+      const { value } = await requestStructured(
+        (request) => this.apiClient.complete(request, callOptions),
+        {
+          system: systemPrompt,
+          messages: [
             {
-              type: "text",
-              text: JSON.stringify({
-                success: true,
-                message: analysisResult.message,
-                tutorial_steps: convertedSteps,
-              }),
+              role: "user",
+              content: [{ type: "text", text: `目標: ${goal}` }],
             },
           ],
-        };
-      } else {
-        return {
-          content: [
+          maxTokens: 1000,
+        },
+        tutorialPlanSpec
+      );
+      plan = value;
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+
+    const session = this.tutorialSessions.create(goal, plan.plan);
+    console.error(
+      `✅ セッション開始: ${session.id} (${session.plan.length}項目の計画)`
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            session_id: session.id,
+            message: plan.message,
+            plan: session.plan,
+            progress: describeProgress(session),
+          }),
+        },
+      ],
+    };
+  }
+
+  private async nextStep(args: any, ctx: ToolContext) {
+    const { session_id } = args;
+    const callOptions = this.callOptions(args, ctx);
+
+    let session: TutorialSession;
+    let screenshot: PreparedScreenshot;
+    try {
+      session = this.tutorialSessions.get(session_id);
+      screenshot = await this.prepareScreenshot(args, ctx);
+    } catch (error) {
+      return this.errorResponse(error, { session_id });
+    }
+
+    if (session.status === "completed") {
+      return this.nextStepResponse(session, "目標は既に達成されています");
+    }
+
+    const { image } = screenshot;
+    const planText = session.plan
+      .map((item, index) => {
+        const mark = index < session.completedCount ? "✅" : "⬜";
+        return `${mark} ${index + 1}. ${item.title}: ${item.description}`;
+      })
+      .join("\n");
+    const completedText =
+      session.completedSteps.length > 0
+        ? session.completedSteps
+            .map((step, index) => `${index + 1}. ${step.text}`)
+            .join("\n")
+        : "（まだありません）";
+
+    const systemPrompt = `あなたはmacOSの操作をステップごとに案内するチュートリアルガイドです。
+
+## ユーザーの目標
+${session.goal}
+
+## 計画（✅は完了済み）
+${planText}
+
+## これまでに案内した操作
+${completedText}
+
+${screenInfoSection(screenshot.geometry, screenshot.layout, image)}
+
+${MACOS_UI_STRUCTURE}
+
+## 回答ルール
+1. 現在の画面を見て、計画のどこまで完了したかを completed_count で答える
+2. 次にユーザーが行うべき操作を1つだけ step で示す（画面上に対象が見えない場合は、そこに到達するための操作を示す）
+3. 目標が達成されていれば status を completed にし、step は null にする
+4. 座標は画像のピクセル座標で指定（${image.width}x${
+      image.height
+    }の画像上の実際のピクセル座標）`;
+
+    const userMessage = `ターン${
+      session.turn + 1
+    }: 現在の画面です。次の操作を教えてください。`;
+
+    let result: NextStepResult;
+    try {
+      const { value } = await requestStructured(
+        (request) => this.apiClient.complete(request, callOptions),
+        {
+          system: systemPrompt,
+          messages: [
+            ...session.history,
             {
-              type: "text",
-              text: JSON.stringify({
-                success: true,
-                message: responseText,
-                tutorial_steps: [],
-              }),
+              role: "user",
+              content: [
+                { type: "image", image },
+                { type: "text", text: userMessage },
+              ],
             },
           ],
-        };
-      }
+          maxTokens: 1000,
+        },
+        nextStepSpec
+      );
+      result = value;
+    } catch (error) {
+      return this.errorResponse(error, { session_id });
+    }
+
+    ctx.progress("parsing", "座標を変換しています");
+    const [currentStep] = result.step
+      ? this.convertSteps([result.step], screenshot, `turn${session.turn + 1}`)
+      : [null];
+
+    this.tutorialSessions.recordTurn(session, {
+      completedCount: result.completed_count,
+      status: result.status,
+      step: currentStep,
+      userMessage: `ターン${
+        session.turn + 1
+      }: （スクリーンショット）次の操作を質問`,
+      assistantMessage: currentStep
+        ? `${result.message}\n操作: ${currentStep.text} - ${currentStep.description}`
+        : result.message,
+    });
+
+    return this.nextStepResponse(session, result.message, {
+      image_info: describeNormalizedImage(image),
+      warnings: screenshot.warnings,
+      redactions: screenshot.redactions,
+    });
+  }
+
+  private nextStepResponse(
+    session: TutorialSession,
+    message: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    console.error(
+      `🧭 セッション ${session.id}: ${session.completedCount}/${session.plan.length} (${session.status})`
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            session_id: session.id,
+            status: session.status,
+            message,
+            current_step: session.currentStep,
+            progress: describeProgress(session),
+            ...extra,
+          }),
+        },
+      ],
+    };
+  }
+
+  private async endTutorial(args: any) {
+    const { session_id } = args;
+
+    let session: TutorialSession;
+    try {
+      session = this.tutorialSessions.delete(session_id);
     } catch (error) {
-      console.error("❌ レスポンス処理エラー:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              success: false,
-              error: `レスポンス処理に失敗しました: ${errorMessage}`,
-              tutorial_steps: [],
-            }),
-          },
-        ],
-      };
+      return this.errorResponse(error, { session_id });
     }
-  }
+    console.error(`🏁 セッション終了: ${session.id}`);
 
-  private async verifyOverlayAccuracy(args: any) {
-    const {
-      image_data,
-      original_prediction,
-      screen_width,
-      screen_height,
-      scale_factor = 2.0,
-    } = args;
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            session_id: session.id,
+            goal: session.goal,
+            completed_steps: session.completedSteps,
+            progress: describeProgress(session),
+          }),
+        },
+      ],
+    };
+  }
 
-    console.error("🔍 AIによる自己校正開始...");
-    console.error("📊 原予測:", JSON.stringify(original_prediction, null, 2));
+  private async checkStepCompleted(args: any, ctx: ToolContext) {
+    const { before_image, after_image, step } = args;
 
-    const systemPrompt = `あなたはAIの自己校正を行うエキスパートです。
+    console.error(`🔎 ステップ完了判定: ${step?.text}`);
 
-## 検証タスク：
-前回のAI分析で「${original_prediction.text}」の位置を以下のように予測しました：
-- 予測座標: (${original_prediction.x}, ${original_prediction.y})
-- 予測サイズ: ${original_prediction.width} x ${original_prediction.height}
+    const callOptions = this.callOptions(args, ctx);
 
-このスクリーンショットには、予測した位置に赤い枠が表示されています。
-この赤枠が実際のUI要素「${
-      original_prediction.text
-    }」を正確に囲んでいるかを検証してください。
+    let screenshot: PreparedScreenshot;
+    let before: NormalizedImage;
+    let beforeRedactions: Redaction[];
+    let diff: ImageDiff;
+    try {
+      screenshot = await this.prepareScreenshot(
+        { ...args, image_data: after_image },
+        ctx
+      );
+      const redacted = await this.redact(before_image, args, screenshot.layout);
+      beforeRedactions = redacted.redactions;
+      before = await normalizeImage(redacted.imageData);
+      throwIfAborted(ctx.signal);
+      // 差分は操作後の画像に合わせて引き伸ばして比べるため、縦横比が違う画面同士は比べられない
+      const beforeAspect = before.width / before.height;
+      const afterAspect = screenshot.image.width / screenshot.image.height;
+      if (Math.abs(beforeAspect / afterAspect - 1) > 0.01) {
+        throw new InvalidArgumentsError(
+          `操作前(${before.originalWidth}x${before.originalHeight})と操作後(${screenshot.image.originalWidth}x${screenshot.image.originalHeight})の画像の縦横比が異なります。同じ画面のスクリーンショットを指定してください`
+        );
+      }
 
-## 評価基準：
-1. **位置精度**: 赤枠がUI要素の中心部を正確に捉えているか
-2. **サイズ精度**: 赤枠のサイズがUI要素に適切か
-3. **全体的な精度**: ユーザーが理解しやすい位置にあるか
+      ctx.progress("image_preprocessing", "操作前後の差分を計算しています");
+      diff = await computeImageDiff(before, screenshot.image);
+    } catch (error) {
+      return this.errorResponse(error, { step });
+    }
 
-## 回答形式：
-{
-  "accuracy_score": 0.85,
-  "position_offset": {
-    "x": -10,
-    "y": 5
-  },
-  "size_correction": {
-    "width": 20,
-    "height": -5
-  },
-  "feedback": "赤枠は概ね正確ですが、少し左にずれています。",
-  "corrected_position": {
-    "x": ${original_prediction.x + 10},
-    "y": ${original_prediction.y - 5},
-    "width": ${original_prediction.width - 20},
-    "height": ${original_prediction.height + 5}
-  }
-}
+    const { image, mapping } = screenshot;
+    const target = logicalRectToImage(step, mapping);
+    const targetChanged = diff.regions.some((region) =>
+      rectsIntersect(region, target, TARGET_CHANGE_MARGIN)
+    );
+    const diffInfo = {
+      changed_ratio: diff.changedRatio,
+      target_changed: targetChanged,
+      regions: diff.regions.map((region) => ({
+        ...imageRectToLogical(region, mapping),
+        changed_ratio: region.changedRatio,
+      })),
+    };
+    console.error(
+      `   差分: ${diff.regions.length}領域 (変化率 ${(
+        diff.changedRatio * 100
+      ).toFixed(2)}%, 対象付近の変化: ${targetChanged})`
+    );
 
-- accuracy_score: 0.0（完全に外れ）〜1.0（完璧）
-- position_offset: 必要な位置補正（ピクセル、論理座標）
-- size_correction: 必要なサイズ補正（ピクセル、論理座標）
-- feedback: 人間向けのフィードバック
-- corrected_position: 修正後の推奨座標（論理座標）`;
+    // 画面が全く変わっていなければモデルに聞くまでもない
+    if (diff.regions.length === 0) {
+      return this.stepCompletionResponse(
+        {
+          status: "not_yet",
+          reason: "操作前後で画面に変化がありません",
+          confidence: 1,
+        },
+        { diff: diffInfo, model_checked: false }
+      );
+    }
 
+    const regionText = diff.regions
+      .map(
+        (region, index) =>
+          `${index + 1}. (${Math.round(region.x)}, ${Math.round(
+            region.y
+          )}) ${Math.round(region.width)}x${Math.round(region.height)}`
+      )
+      .join("\n");
+
+    const systemPrompt = `あなたはmacOSのチュートリアルで、ユーザーが案内どおりに操作できたかを判定するエキスパートです。
+
+## 案内した操作
+- 対象: ${step.text}
+- 説明: ${step.description || "（なし）"}
+- 対象の位置（画像ピクセル座標）: (${Math.round(target.x)}, ${Math.round(
+      target.y
+    )}) ${Math.round(target.width)}x${Math.round(target.height)}
+
+## 画面の変化（ピクセル差分で検出、画像ピクセル座標）
+${regionText}
+
+1枚目が操作前（${before.width}x${before.height}ピクセル）、2枚目が操作後（${
+      image.width
+    }x${
+      image.height
+    }ピクセル）のスクリーンショットです。上記の座標はどちらも操作後の画像のピクセル座標です。
+
+## 判定基準
+- completed: 案内した操作の結果として期待される変化（メニューが開いた、画面が切り替わった、設定が変わった等）が起きた
+- not_yet: 変化は操作と無関係（時計・アニメーション・通知など）で、まだ操作されていない
+- went_wrong: 別の要素を操作した、想定外の画面に進んだなど、やり直しが必要
+
+reason には、went_wrong の場合にユーザーがどう戻ればよいかも含めてください。`;
+
+    let result: StepCompletion;
     try {
-      const response = await axios.post(
-        this.claudeApiUrl,
+      const { value } = await requestStructured(
+        (request) => this.apiClient.complete(request, callOptions),
         {
-          model: "claude-3-5-sonnet-20241022",
-          max_tokens: 1000,
+          system: systemPrompt,
           messages: [
             {
               role: "user",
               content: [
-                {
-                  type: "image",
-                  source: {
-                    type: "base64",
-                    media_type: "image/jpeg",
-                    data: image_data,
-                  },
-                },
+                { type: "image", image: before },
+                { type: "image", image },
                 {
                   type: "text",
-                  text: "上記のスクリーンショットで赤枠の位置精度を評価してください。",
+                  text: `「${step.text}」の操作は完了しましたか？`,
                 },
               ],
             },
           ],
-          system: systemPrompt,
+          maxTokens: 500,
         },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "anthropic-version": "2023-06-01",
-            "x-api-key": this.claudeApiKey,
-          },
-        }
+        stepCompletionSpec
       );
+      result = value;
+    } catch (error) {
+      return this.errorResponse(error, { step, diff: diffInfo });
+    }
 
-      const responseText = response.data.content[0]?.text || "";
-      console.error("✅ 自己校正分析完了");
-      console.error(
-        "🔍 検証応答（最初の300文字）:",
-        responseText.slice(0, 300)
-      );
+    return this.stepCompletionResponse(result, {
+      diff: diffInfo,
+      model_checked: true,
+      image_info: describeNormalizedImage(image),
+      warnings: screenshot.warnings,
+      redactions: screenshot.redactions,
+      before_redactions: beforeRedactions,
+    });
+  }
 
-      // JSON部分を抽出
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        try {
-          // Claude APIの応答をクリーニング（+記号付き数値を正規化）
-          let cleanedJson = jsonMatch[0];
+  private stepCompletionResponse(
+    result: StepCompletion,
+    extra: Record<string, unknown>
+  ) {
+    console.error(
+      `✅ 判定: ${result.status} (確信度 ${result.confidence}) - ${result.reason}`
+    );
 
-          // +記号付き数値を正規化（例: "x": +15 → "x": 15）
-          cleanedJson = cleanedJson.replace(/:\s*\+(-?\d+(?:\.\d+)?)/g, ": $1");
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            ...result,
+            ...extra,
+          }),
+        },
+      ],
+    };
+  }
 
-          // 他の潜在的な問題も修正
-          cleanedJson = cleanedJson.replace(
-            /:\s*\+(-?\d+(?:\.\d+)?)([,}])/g,
-            ": $1$2"
-          );
+  private async calibrateSteps(args: any, ctx: ToolContext) {
+    const inputSteps: TutorialStep[] = Array.isArray(args.tutorial_steps)
+      ? args.tutorial_steps
+      : [];
 
-          // JSON文字列内の制御文字を適切にエスケープ
-          cleanedJson = cleanedJson.replace(
-            /("feedback":\s*"[^"]*?)[\n\r\t]/g,
-            "$1\\n"
-          );
-          cleanedJson = cleanedJson.replace(
-            /("feedback":\s*"[^"]*?)\n/g,
-            "$1\\n"
-          );
-          cleanedJson = cleanedJson.replace(
-            /("feedback":\s*"[^"]*?)\r/g,
-            "$1\\r"
-          );
-          cleanedJson = cleanedJson.replace(
-            /("feedback":\s*"[^"]*?)\t/g,
-            "$1\\t"
-          );
+    let screenshot: PreparedScreenshot;
+    try {
+      if (inputSteps.length === 0) {
+        throw new InvalidArgumentsError(
+          "tutorial_steps を1つ以上指定してください"
+        );
+      }
+      screenshot = await this.prepareScreenshot(args, ctx);
+    } catch (error) {
+      return this.errorResponse(error, { tutorial_steps: inputSteps });
+    }
 
-          // 文字列内の不正な改行文字を修正
-          cleanedJson = cleanedJson.replace(
-            /"feedback":\s*"([^"]*(?:\\.[^"]*)*)"/g,
-            (match: string, content: string) => {
-              const escapedContent = content
-                .replace(/\n/g, "\\n")
-                .replace(/\r/g, "\\r")
-                .replace(/\t/g, "\\t")
-                .replace(/[\x00-\x1F]/g, ""); // 他の制御文字を削除
-              return `"feedback": "${escapedContent}"`;
-            }
-          );
+    const { image, mapping } = screenshot;
+    const { accuracyThreshold, maxIterations } =
+      resolveCalibrationOptions(args);
+    const callOptions = this.callOptions(args, ctx);
+    const warnings = [...screenshot.warnings];
 
-          console.error("🧹 JSON クリーニング完了:");
-          console.error("  原文:", jsonMatch[0].slice(0, 200));
-          console.error("  修正:", cleanedJson.slice(0, 200));
+    console.error(
+      `🎯 校正開始: ${inputSteps.length}ステップ (しきい値 ${accuracyThreshold}, 最大${maxIterations}回)`
+    );
 
-          const verificationResult = JSON.parse(cleanedJson);
-          console.error(
-            "📋 検証結果:",
-            JSON.stringify(verificationResult, null, 2)
-          );
+    let steps = inputSteps;
+    // 最後に評価した時のスコアと、その後に枠を動かしたか
+    const latest = steps.map(() => ({
+      score: null as number | null,
+      feedback: "",
+      movedAfterScore: false,
+    }));
+    const iterations: Record<string, unknown>[] = [];
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const pending = steps
+        .map((_, index) => index)
+        .filter(
+          (index) =>
+            latest[index].score === null ||
+            latest[index].score! < accuracyThreshold
+        );
+      if (pending.length === 0) {
+        break;
+      }
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  success: true,
-                  verification_result: verificationResult,
-                  original_prediction: original_prediction,
-                }),
-              },
-            ],
-          };
-        } catch (parseError) {
-          console.error("❌ JSON パースエラー:", parseError);
-          console.error("🔍 問題のあるJSON:", jsonMatch[0].slice(0, 500));
-
-          // 手動解析のフォールバック処理
-          const fallbackResult = this.parseVerificationFallback(jsonMatch[0]);
-          if (fallbackResult) {
-            console.error("✅ フォールバック解析成功");
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify({
-                    success: true,
-                    verification_result: fallbackResult,
-                    original_prediction: original_prediction,
-                    note: "フォールバック解析を使用しました",
-                  }),
-                },
-              ],
-            };
-          }
+      let result: CalibrationResult;
+      try {
+        ctx.progress(
+          "image_preprocessing",
+          `反復${iteration}: ${pending.length}個の枠を描画しています`
+        );
+        const boxes = pending.map((index) => ({
+          mark: index + 1,
+          rect: logicalRectToImage(steps[index], mapping),
+        }));
+        const overlaid = await overlaySvg(
+          image,
+          calibrationOverlaySvg(boxes, image.width, image.height)
+        );
 
-          return {
-            content: [
+        const boxList = pending
+          .map((index) => {
+            const step = steps[index];
+            return `${index + 1}. 「${step.text}」${
+              step.description ? `（${step.description}）` : ""
+            }`;
+          })
+          .join("\n");
+
+        const { value } = await requestStructured(
+          (request) => this.apiClient.complete(request, callOptions),
+          {
+            system: `あなたはチュートリアルの赤枠の位置精度を評価するエキスパートです。
+
+スクリーンショット（${image.width}x${image.height}ピクセル）に、番号付きの赤枠が描かれています。
+各枠が囲むべきUI要素は次のとおりです。
+
+${boxList}
+
+## 評価基準
+1. 枠がUI要素全体を過不足なく囲んでいるか（位置とサイズ）
+2. 別の要素を囲んでいないか
+
+すべての番号について accuracy_score（0.0〜1.0）を付け、ずれている場合は corrected_position に要素を正しく囲む枠を画像のピクセル座標で指定してください。正確な場合は corrected_position を null にしてください。`,
+            messages: [
               {
-                type: "text",
-                text: JSON.stringify({
-                  success: false,
-                  error: `JSON解析に失敗しました: ${
-                    parseError instanceof Error
-                      ? parseError.message
-                      : String(parseError)
-                  }`,
-                  raw_response: responseText.slice(0, 500),
-                }),
+                role: "user",
+                content: [
+                  { type: "image", image: overlaid },
+                  { type: "text", text: "各赤枠の位置を評価してください。" },
+                ],
               },
             ],
-          };
+            maxTokens: 300 + 150 * pending.length,
+          },
+          calibrationResultSpec
+        );
+        result = value;
+      } catch (error) {
+        // 2回目以降の失敗はそこまでの校正結果を返す
+        if (iteration === 1 || error instanceof CancelledError) {
+          return this.errorResponse(error, { tutorial_steps: inputSteps });
         }
-      } else {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                success: false,
-                error: "検証結果のJSON抽出に失敗しました",
-                raw_response: responseText,
-              }),
-            },
-          ],
+        const { error: reason } = describeError(error);
+        warnings.push(`反復${iteration}で校正を中断しました: ${reason}`);
+        break;
+      }
+
+      const scores: Record<string, unknown>[] = [];
+      for (const judgement of result.judgements) {
+        const index = judgement.mark - 1;
+        if (!pending.includes(index)) {
+          continue;
+        }
+
+        const corrected =
+          judgement.accuracy_score < accuracyThreshold &&
+          judgement.corrected_position
+            ? imageRectToLogical(judgement.corrected_position, mapping)
+            : null;
+        latest[index] = {
+          score: judgement.accuracy_score,
+          feedback: judgement.feedback,
+          movedAfterScore: corrected !== null,
         };
+        if (corrected) {
+          steps = steps.map((step, i) =>
+            i === index ? this.relocateStep(step, corrected, screenshot) : step
+          );
+        }
+
+        scores.push({
+          step_id: steps[index].id,
+          accuracy_score: judgement.accuracy_score,
+          feedback: judgement.feedback,
+          corrected: corrected !== null,
+        });
       }
-    } catch (error) {
-      console.error("❌ 自己校正エラー:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              success: false,
-              error: `自己校正処理に失敗しました: ${errorMessage}`,
-            }),
-          },
-        ],
-      };
+      const judged = scores.map((score) => score.accuracy_score as number);
+      const meanScore =
+        judged.length > 0
+          ? judged.reduce((sum, score) => sum + score, 0) / judged.length
+          : null;
+      console.error(
+        `   反復${iteration}: 平均スコア ${meanScore?.toFixed(2) ?? "-"} (${
+          judged.length
+        }/${pending.length}個を評価)`
+      );
+      iterations.push({ iteration, mean_score: meanScore, scores });
     }
+
+    const converged = latest.every(
+      (entry) =>
+        entry.score !== null &&
+        entry.score >= accuracyThreshold &&
+        !entry.movedAfterScore
+    );
+    console.error(`✅ 校正終了: ${converged ? "収束" : "未収束"}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            converged,
+            accuracy_threshold: accuracyThreshold,
+            tutorial_steps: steps,
+            final_scores: steps.map((step, index) => ({
+              step_id: step.id,
+              accuracy_score: latest[index].score,
+              // 最後の評価後に補正した枠はまだ評価されていない
+              verified: !latest[index].movedAfterScore,
+              feedback: latest[index].feedback,
+            })),
+            iterations,
+            image_info: describeNormalizedImage(image),
+            warnings,
+            redactions: screenshot.redactions,
+          }),
+        },
+      ],
+    };
   }
 
-  private parseVerificationFallback(jsonText: string): any | null {
-    try {
-      console.error("🔧 フォールバック解析を開始...");
+  // 参照画像と同じ見た目の箇所をローカルの画素照合で探す（モデルは呼ばない）
+  private async findTemplate(args: any, ctx: ToolContext) {
+    const label: string = args.label || "一致箇所";
+    const minScore = Number(args.min_score);
+    const maxResults = Number(args.max_results);
 
-      // 基本的な数値抽出パターン
-      const accuracyMatch = jsonText.match(
-        /"accuracy_score":\s*([+-]?\d*\.?\d+)/
-      );
-      const xOffsetMatch = jsonText.match(/"x":\s*([+-]?\d+)/);
-      const yOffsetMatch = jsonText.match(/"y":\s*([+-]?\d+)/);
-      const widthMatch = jsonText.match(/"width":\s*([+-]?\d+)/);
-      const heightMatch = jsonText.match(/"height":\s*([+-]?\d+)/);
-      const feedbackMatch = jsonText.match(
-        /"feedback":\s*"([^"]*(?:\\.[^"]*)*)"/
+    let screenshot: PreparedScreenshot;
+    let matches: TemplateMatch[];
+    try {
+      if (typeof args.template_data !== "string" || !args.template_data) {
+        throw new InvalidArgumentsError("template_data を指定してください");
+      }
+      screenshot = await this.prepareScreenshot(args, ctx, false);
+      ctx.progress("postprocessing", "参照画像と照合しています");
+      matches = await findTemplateMatches(
+        screenshot.image,
+        args.template_data,
+        {
+          ...(minScore > 0 && minScore <= 1 && { minScore }),
+          ...(Number.isInteger(maxResults) &&
+            maxResults >= 1 && { maxResults }),
+        }
       );
+    } catch (error) {
+      return this.errorResponse(error, { tutorial_steps: [] });
+    }
 
-      if (accuracyMatch) {
-        const result = {
-          accuracy_score: parseFloat(accuracyMatch[1]),
-          position_offset: {
-            x: xOffsetMatch ? parseInt(xOffsetMatch[1]) : 0,
-            y: yOffsetMatch ? parseInt(yOffsetMatch[1]) : 0,
-          },
-          size_correction: {
-            width: widthMatch ? parseInt(widthMatch[1]) : 0,
-            height: heightMatch ? parseInt(heightMatch[1]) : 0,
-          },
-          feedback: feedbackMatch
-            ? feedbackMatch[1].replace(/\\"/g, '"')
-            : "フォールバック解析による結果",
-          corrected_position: null, // 簡略化のためnull
-        };
+    const steps = this.convertSteps(
+      matches.map((match, index) => ({
+        text: label,
+        ...match.rect,
+        description: `参照画像との一致スコア ${match.score.toFixed(2)}`,
+        order: index + 1,
+        action: { kind: "click" as const },
+        precondition: "",
+        expected_result: "",
+        annotations: [],
+      })),
+      screenshot,
+      "match"
+    ).map(
+      (step, index): TutorialStep => ({
+        ...step,
+        coordinate_source: "template",
+        match_score: matches[index].score,
+      })
+    );
 
-        console.error(
-          "✅ フォールバック解析結果:",
-          JSON.stringify(result, null, 2)
-        );
-        return result;
-      }
+    console.error(`🧩 テンプレート照合: ${steps.length}件一致 (${label})`);
 
-      console.error("❌ フォールバック解析でも解析できませんでした");
-      return null;
-    } catch (error) {
-      console.error("❌ フォールバック解析エラー:", error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            tutorial_steps: steps,
+            image_info: describeNormalizedImage(screenshot.image),
+            coordinate_mapping: describeCoordinateMapping(screenshot.mapping),
+            warnings: screenshot.warnings,
+          }),
+        },
+      ],
+    };
+  }
+
+  // 枠の位置を差し替え、ディスプレイ情報と付随する注釈を合わせて更新する
+  private relocateStep(
+    step: TutorialStep,
+    global: Rect,
+    screenshot: PreparedScreenshot
+  ): TutorialStep {
+    const { display, local } = locateOnDisplay(global, screenshot.layout);
+    return {
+      ...step,
+      ...global,
+      annotations: relocateAnnotations(step.annotations ?? [], step, global),
+      display_id: display.id,
+      local,
+      global,
+    };
+  }
+
+  private resolveDisplayLayout(args: any): DisplayLayout | null {
+    const { displays, screen_width, screen_height, scale_factor = 2.0 } = args;
+
+    if (Array.isArray(displays) && displays.length > 0) {
+      return buildDisplayLayout(
+        displays.map((display: any) => ({
+          id: display.id,
+          frame: {
+            x: display.x,
+            y: display.y,
+            width: display.width,
+            height: display.height,
+          },
+          scaleFactor: display.scale_factor ?? scale_factor,
+        }))
+      );
+    }
+
+    if (!screen_width || !screen_height) {
       return null;
     }
+
+    return singleDisplayLayout({
+      screenWidth: screen_width,
+      screenHeight: screen_height,
+      scaleFactor: scale_factor,
+    });
+  }
+
+  private callOptions(args: any, ctx: ToolContext): CallOptions {
+    return {
+      ...deadlineFromArgs(args),
+      signal: ctx.signal,
+      progress: ctx.progress,
+      usage: ctx.usage,
+    };
+  }
+
+  // 失敗を error_code / retry_suggested 付きの共通形式で返す
+  private errorResponse(error: unknown, extra: Record<string, unknown> = {}) {
+    const payload = describeError(error);
+    console.error(`❌ ${payload.error_code}: ${payload.error}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ ...payload, ...extra }),
+        },
+      ],
+    };
   }
 
   private async createTestTutorial(args: any) {
-    const { count = 3 } = args;
+    const { count = TEST_TUTORIAL_STEP_COUNT } = args;
 
     console.error(`🧪 テスト用チュートリアル作成 (${count}個のステップ)`);
 
-    const testSteps: TutorialStep[] = [
+    // 操作の種類ごとに1つずつ用意する
+    const allSteps: TutorialStep[] = [
       {
         id: "test_1",
         text: "テスト枠1",
@@ -776,6 +2415,18 @@ UI要素が見つからない場合は、tutorial_stepsを空の配列にして
         width: 200,
         height: 50,
         description: "左上テスト用座標",
+        order: 1,
+        action: { kind: "click" },
+        precondition: "テスト用ウィンドウが表示されている",
+        expected_result: "枠がクリックされた状態になる",
+        annotations: [
+          {
+            type: "callout",
+            anchor: { x: 200, y: 150 },
+            text: "ここをクリック",
+            placement: "bottom",
+          },
+        ],
       },
       {
         id: "test_2",
@@ -785,6 +2436,13 @@ UI要素が見つからない場合は、tutorial_stepsを空の配列にして
         width: 150,
         height: 80,
         description: "中央テスト用座標",
+        order: 2,
+        action: { kind: "double_click" },
+        precondition: "テスト枠1の操作が完了している",
+        expected_result: "項目が開く",
+        annotations: [
+          { type: "circle", center: { x: 475, y: 340 }, radius: 90 },
+        ],
       },
       {
         id: "test_3",
@@ -794,8 +2452,82 @@ UI要素が見つからない場合は、tutorial_stepsを空の配列にして
         width: 120,
         height: 40,
         description: "右側テスト用座標",
+        order: 3,
+        action: { kind: "right_click" },
+        precondition: "テスト枠3が表示されている",
+        expected_result: "コンテキストメニューが開く",
+        annotations: [
+          {
+            type: "spotlight",
+            rect: { x: 790, y: 190, width: 140, height: 60 },
+          },
+        ],
+      },
+      {
+        id: "test_4",
+        text: "テスト枠4",
+        x: 200,
+        y: 450,
+        width: 64,
+        height: 64,
+        description: "ドラッグ元テスト用座標",
+        order: 4,
+        action: {
+          kind: "drag",
+          drag_to: { x: 600, y: 450, width: 120, height: 120 },
+        },
+        precondition: "ドラッグ先の領域が見えている",
+        expected_result: "アイコンがドラッグ先に移動する",
+        annotations: [
+          { type: "arrow", from: { x: 232, y: 482 }, to: { x: 660, y: 510 } },
+        ],
+      },
+      {
+        id: "test_5",
+        text: "テスト枠5",
+        x: 300,
+        y: 40,
+        width: 400,
+        height: 30,
+        description: "入力欄テスト用座標",
+        order: 5,
+        action: { kind: "type_text", text: "テスト入力" },
+        precondition: "入力欄にフォーカスがある",
+        expected_result: "入力欄に「テスト入力」と表示される",
+        annotations: [],
+      },
+      {
+        id: "test_6",
+        text: "テスト枠6",
+        x: 1000,
+        y: 0,
+        width: 30,
+        height: 24,
+        description: "ショートカットテスト用座標（Spotlight）",
+        order: 6,
+        action: { kind: "keyboard_shortcut", keys: ["cmd", "space"] },
+        precondition: "任意のアプリが前面にある",
+        expected_result: "Spotlight検索が開く",
+        annotations: [
+          { type: "point", at: { x: 1015, y: 12 }, style: "crosshair" },
+        ],
       },
-    ].slice(0, count);
+      {
+        id: "test_7",
+        text: "テスト枠7",
+        x: 500,
+        y: 150,
+        width: 300,
+        height: 400,
+        description: "スクロールテスト用座標",
+        order: 7,
+        action: { kind: "scroll", scroll_direction: "down" },
+        precondition: "リストの先頭が表示されている",
+        expected_result: "リストの続きが表示される",
+        annotations: [],
+      },
+    ];
+    const testSteps = allSteps.slice(0, count);
 
     return {
       content: [
@@ -813,10 +2545,33 @@ UI要素が見つからない場合は、tutorial_stepsを空の配列にして
 
   async run() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
     console.error("Screenshot Analysis MCP server running on stdio");
   }
+
+  // 常駐モード: HTTP+SSEで複数セッションを受け付ける
+  async runHttp() {
+    const options = loadHttpServerOptions();
+    const httpServer = new McpHttpServer(
+      (sessionId) => this.createServer(sessionId),
+      options
+    );
+    await httpServer.listen();
+    console.error(
+      `Screenshot Analysis MCP server running on http://${options.host}:${options.port}/sse`
+    );
+
+    const shutdown = async (signal: string) => {
+      console.error(`📴 ${signal} を受信しました`);
+      await httpServer.close();
+      process.exit(0);
+    };
+    process.once("SIGINT", () => void shutdown("SIGINT"));
+    process.once("SIGTERM", () => void shutdown("SIGTERM"));
+  }
 }
 
 const server = new ScreenshotAnalysisServer();
-server.run().catch(console.error);
+const useHttp =
+  process.argv.includes("--http") || process.env.MCP_TRANSPORT === "http";
+(useHttp ? server.runHttp() : server.run()).catch(console.error);
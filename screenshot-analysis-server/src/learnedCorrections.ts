@@ -0,0 +1,291 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Rect } from "./coordinateMapping.js";
+
+// 補正を学習する画面上の領域（メニューバーやDockは系統的なずれ方が異なる）
+export type ScreenRegion = "menu_bar" | "dock" | "window";
+
+export interface CorrectionKey {
+  screenWidth: number; // ディスプレイの論理解像度
+  screenHeight: number;
+  scaleFactor: number;
+  region: ScreenRegion;
+  app?: string; // 前面アプリ名（クライアントが指定した場合）
+}
+
+// 元の予測枠に対する正解枠の差分（論理座標）
+export interface CorrectionSample {
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+  score: number; // 検証時の accuracy_score
+  recordedAt: number;
+}
+
+export interface FittedCorrection {
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+  samples: number;
+  spread: number; // 位置のばらつき（中央絶対偏差の大きいほう）
+  scope: "app" | "region"; // アプリ単位のサンプルで当てはめたか
+}
+
+export interface LearnedCorrectionOptions {
+  maxSamplesPerKey: number;
+  minSamples: number; // これ未満のサンプル数では補正しない
+  maxSpread: number; // ばらつきがこれより大きい場合は系統的なずれとみなさない
+}
+
+interface StoreFile {
+  version: 1;
+  entries: Record<string, CorrectionSample[]>;
+}
+
+const DEFAULT_OPTIONS: LearnedCorrectionOptions = {
+  maxSamplesPerKey: 50,
+  minSamples: 3,
+  maxSpread: 12,
+};
+
+const MENU_BAR_HEIGHT = 28;
+const DOCK_HEIGHT = 80;
+const ANY_APP = "*";
+
+export function defaultCorrectionStorePath(): string {
+  return path.join(os.homedir(), ".ponko2", "learned-corrections.json");
+}
+
+// LEARNED_CORRECTIONS_PATH=off で永続化（と自動補正）を無効にする
+export function loadCorrectionStorePath(
+  env: NodeJS.ProcessEnv = process.env
+): string | null {
+  const value = env.LEARNED_CORRECTIONS_PATH;
+  if (value === "off") {
+    return null;
+  }
+  return value || defaultCorrectionStorePath();
+}
+
+// ディスプレイ内の論理座標から、枠が属する領域を判定する
+export function classifyScreenRegion(
+  local: Rect,
+  displayHeight: number
+): ScreenRegion {
+  const centerY = local.y + local.height / 2;
+  if (centerY < MENU_BAR_HEIGHT) {
+    return "menu_bar";
+  }
+  if (centerY > displayHeight - DOCK_HEIGHT) {
+    return "dock";
+  }
+  return "window";
+}
+
+function resolutionKey(key: CorrectionKey): string {
+  return `${key.screenWidth}x${key.screenHeight}@${key.scaleFactor}`;
+}
+
+function entryKey(key: CorrectionKey): string {
+  return `${resolutionKey(key)}|${key.region}|${key.app || ANY_APP}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function medianAbsoluteDeviation(values: number[], center: number): number {
+  return median(values.map((value) => Math.abs(value - center)));
+}
+
+// 検証結果から系統的なずれを学習し、以後の予測に自動で適用する
+export class LearnedCorrectionStore {
+  private entries = new Map<string, CorrectionSample[]>();
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private options: LearnedCorrectionOptions;
+
+  constructor(
+    private filePath: string | null,
+    options: Partial<LearnedCorrectionOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get enabled(): boolean {
+    return this.filePath !== null;
+  }
+
+  get path(): string | null {
+    return this.filePath;
+  }
+
+  async record(key: CorrectionKey, sample: CorrectionSample): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+    await this.load();
+    const id = entryKey(key);
+    const samples = [...(this.entries.get(id) ?? []), sample].slice(
+      -this.options.maxSamplesPerKey
+    );
+    this.entries.set(id, samples);
+    await this.save();
+  }
+
+  // アプリ単位で十分なサンプルがあればそれを、無ければ同じ解像度・領域の全アプリ分を使う
+  async lookup(key: CorrectionKey): Promise<FittedCorrection | null> {
+    if (!this.enabled) {
+      return null;
+    }
+    await this.load();
+
+    if (key.app) {
+      const fitted = this.fit(this.entries.get(entryKey(key)) ?? [], "app");
+      if (fitted) {
+        return fitted;
+      }
+    }
+
+    const prefix = `${resolutionKey(key)}|${key.region}|`;
+    const samples = [...this.entries]
+      .filter(([id]) => id.startsWith(prefix))
+      .flatMap(([, entrySamples]) => entrySamples);
+    return this.fit(samples, "region");
+  }
+
+  async describe() {
+    await this.load();
+    return [...this.entries].map(([id, samples]) => {
+      const [resolution, region, app] = id.split("|");
+      const fitted = this.fit(samples, "app", true);
+      return {
+        key: id,
+        resolution,
+        region,
+        app: app === ANY_APP ? null : app,
+        samples: samples.length,
+        mean_score:
+          samples.reduce((sum, sample) => sum + sample.score, 0) /
+          samples.length,
+        last_recorded_at: new Date(
+          Math.max(...samples.map((sample) => sample.recordedAt))
+        ).toISOString(),
+        correction: fitted && {
+          dx: fitted.dx,
+          dy: fitted.dy,
+          dw: fitted.dw,
+          dh: fitted.dh,
+          spread: fitted.spread,
+          active: this.fit(samples, "app") !== null,
+        },
+      };
+    });
+  }
+
+  // keyPrefix（例: "1512x982@2"）に一致するものだけ、または全て削除する
+  async reset(keyPrefix?: string): Promise<number> {
+    await this.load();
+    const targets = [...this.entries.keys()].filter(
+      (id) => !keyPrefix || id.startsWith(keyPrefix)
+    );
+    targets.forEach((id) => this.entries.delete(id));
+    if (this.enabled) {
+      await this.save();
+    }
+    return targets.length;
+  }
+
+  // 外れ値に強いよう中央値で当てはめる
+  private fit(
+    samples: CorrectionSample[],
+    scope: FittedCorrection["scope"],
+    ignoreThresholds = false
+  ): FittedCorrection | null {
+    if (samples.length === 0) {
+      return null;
+    }
+    const dxs = samples.map((sample) => sample.dx);
+    const dys = samples.map((sample) => sample.dy);
+    const dx = median(dxs);
+    const dy = median(dys);
+    const spread = Math.max(
+      medianAbsoluteDeviation(dxs, dx),
+      medianAbsoluteDeviation(dys, dy)
+    );
+
+    if (
+      !ignoreThresholds &&
+      (samples.length < this.options.minSamples ||
+        spread > this.options.maxSpread)
+    ) {
+      return null;
+    }
+
+    return {
+      dx,
+      dy,
+      dw: median(samples.map((sample) => sample.dw)),
+      dh: median(samples.map((sample) => sample.dh)),
+      samples: samples.length,
+      spread,
+      scope,
+    };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+    }
+    return this.loaded;
+  }
+
+  private async readFile() {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      const content: StoreFile = JSON.parse(
+        await fs.readFile(this.filePath, "utf-8")
+      );
+      for (const [id, samples] of Object.entries(content.entries ?? {})) {
+        this.entries.set(id, samples);
+      }
+      console.error(
+        `📚 学習済み補正を読み込み: ${this.entries.size}件 (${this.filePath})`
+      );
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        console.error("⚠️ 学習済み補正の読み込みに失敗:", error);
+      }
+    }
+  }
+
+  // 書き込みは直列化し、一時ファイルからのrenameで壊れたファイルを残さない
+  private save(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    const content: StoreFile = {
+      version: 1,
+      entries: Object.fromEntries(this.entries),
+    };
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const temporary = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(temporary, JSON.stringify(content, null, 2));
+        await fs.rename(temporary, filePath);
+      });
+    return this.writing;
+  }
+}
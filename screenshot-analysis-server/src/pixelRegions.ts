@@ -0,0 +1,61 @@
+export interface CellRegion {
+  minColumn: number;
+  minRow: number;
+  maxColumn: number; // 両端を含む
+  maxRow: number;
+  cells: number[]; // 領域に含まれるセルのインデックス（row * columns + column）
+}
+
+// 格子状のマスク上で、上下左右に隣接する有効セルを連結成分としてまとめる
+export function labelCellRegions(
+  mask: ArrayLike<number>,
+  columns: number,
+  rows: number
+): CellRegion[] {
+  const visited = new Uint8Array(columns * rows);
+  const regions: CellRegion[] = [];
+
+  for (let start = 0; start < columns * rows; start++) {
+    if (!mask[start] || visited[start]) {
+      continue;
+    }
+
+    const region: CellRegion = {
+      minColumn: columns,
+      minRow: rows,
+      maxColumn: 0,
+      maxRow: 0,
+      cells: [],
+    };
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      region.minColumn = Math.min(region.minColumn, column);
+      region.maxColumn = Math.max(region.maxColumn, column);
+      region.minRow = Math.min(region.minRow, row);
+      region.maxRow = Math.max(region.maxRow, row);
+      region.cells.push(cell);
+
+      const neighbors = [
+        column > 0 ? cell - 1 : -1,
+        column < columns - 1 ? cell + 1 : -1,
+        row > 0 ? cell - columns : -1,
+        row < rows - 1 ? cell + columns : -1,
+      ];
+      for (const neighbor of neighbors) {
+        if (neighbor >= 0 && mask[neighbor] && !visited[neighbor]) {
+          visited[neighbor] = 1;
+          stack.push(neighbor);
+        }
+      }
+    }
+
+    regions.push(region);
+  }
+
+  return regions;
+}
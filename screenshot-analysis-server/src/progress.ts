@@ -0,0 +1,79 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ProgressToken } from "@modelcontextprotocol/sdk/types.js";
+import { UsageMeter } from "./apiClient.js";
+
+export type ProgressStage =
+  | "image_preprocessing"
+  | "model_request"
+  | "retry"
+  | "parsing"
+  | "postprocessing";
+
+export type ProgressListener = (stage: ProgressStage, message: string) => void;
+
+// ツール実行中のキャンセル信号と進捗通知、使用量の計測
+export interface ToolContext {
+  signal?: AbortSignal;
+  progress: ProgressListener;
+  usage?: UsageMeter;
+}
+
+export class CancelledError extends Error {
+  constructor(message: string = "クライアントによりキャンセルされました") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+export const NOOP_TOOL_CONTEXT: ToolContext = { progress: () => undefined };
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+// キャンセル可能な待機（バックオフ用）
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// progressTokenが指定された場合のみ notifications/progress を送る
+export function createToolContext(
+  server: Server,
+  progressToken: ProgressToken | undefined,
+  signal: AbortSignal
+): ToolContext {
+  let progress = 0;
+
+  return {
+    signal,
+    progress: (stage, message) => {
+      console.error(`⏳ [${stage}] ${message}`);
+      if (progressToken === undefined || signal.aborted) {
+        return;
+      }
+      progress++;
+      server
+        .notification({
+          method: "notifications/progress",
+          params: { progressToken, progress, stage, message },
+        })
+        .catch((error) => console.error("⚠️ 進捗通知の送信に失敗:", error));
+    },
+  };
+}
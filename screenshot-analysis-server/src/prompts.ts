@@ -0,0 +1,64 @@
+import { DisplayLayout, ScreenGeometry } from "./coordinateMapping.js";
+import { NormalizedImage } from "./imageProcessing.js";
+
+export const MACOS_UI_STRUCTURE = `## macOSのUI構造を正確に理解してください：
+
+### 1. メニューバー（画面最上部、通常y=0-30付近）
+- アプリ名、ファイル、編集、表示などのメニュー項目
+- 右側にWi-Fi、バッテリー、時計などのシステムメニュー
+
+### 2. アプリケーションウィンドウ（画面中央部）
+- 実際に起動中のアプリケーション（Finder、Safari、VSCodeなど）
+- 各ウィンドウには左上に赤・黄・緑の丸ボタン（ウィンドウコントロール）
+
+### 3. Dock（画面下部）
+- アプリケーションアイコンが並んでいる領域`;
+
+// 注釈図形は座標で答えさせるので、localization_mode が direct のときだけ求める
+export const ANNOTATIONS_INSTRUCTION = `8. 矩形だけでは伝わりにくい場合は annotations に注釈図形を追加する（座標は画像のピクセル座標）
+   - point: 閉じるボタンなど極小の要素の中心（style: dot / crosshair）
+   - circle: 要素を囲む円（center と radius）
+   - arrow: from から to への矢印（ドラッグ経路や視線誘導）
+   - spotlight: rect 以外を暗くして注目させる
+   - callout: anchor を指す吹き出しに text を表示（placement: top / bottom / left / right）`;
+
+export const ANNOTATIONS_EXAMPLE = `"annotations": [
+        { "type": "callout", "anchor": { "x": 200, "y": 125 }, "text": "ここをクリック", "placement": "bottom" }
+      ]`;
+
+export function screenInfoSection(
+  geometry: ScreenGeometry,
+  layout: DisplayLayout,
+  image: Pick<NormalizedImage, "width" | "height">
+): string {
+  const displayNote =
+    layout.displays.length > 1
+      ? `\n- ディスプレイ構成: ${layout.displays.length}台（画像は全ディスプレイを結合したもの）`
+      : "";
+
+  return `スクリーン情報:
+- 論理解像度: ${geometry.screenWidth}x${geometry.screenHeight}
+- スケールファクタ: ${geometry.scaleFactor}
+- 画像サイズ: ${image.width}x${image.height}ピクセル${displayNote}`;
+}
+
+// analyze_screenshot の位置の答え方（localization_mode ごと）
+export function directInstruction(
+  image: Pick<NormalizedImage, "width" | "height">
+): string {
+  return `座標は画像のピクセル座標で指定（${image.width}x${image.height}の画像上の実際のピクセル座標。画像左上が(0,0)）`;
+}
+
+export function gridInstruction(
+  columns: number,
+  rows: number,
+  lastColumn: string
+): string {
+  return `画像には${columns}列×${rows}行のグリッドが描かれています（列はA〜${lastColumn}、行は1〜${rows}、各セルの左上にラベル）。
+   位置は座標ではなく、要素を覆う範囲の左上セル top_left_cell と右下セル bottom_right_cell で指定する（1セルに収まる場合は同じラベル）`;
+}
+
+export function marksInstruction(count: number): string {
+  return `画像にはUI要素の候補に1〜${count}の番号付きの枠が描かれています。
+   位置は座標ではなく、要素を最もよく囲む枠の番号 mark_id で指定する`;
+}
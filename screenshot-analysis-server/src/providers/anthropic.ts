@@ -0,0 +1,103 @@
+import axios from "axios";
+import {
+  VisionContent,
+  VisionProvider,
+  VisionRequest,
+  VisionResponse,
+} from "./types.js";
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  apiUrl?: string;
+  model?: string;
+  anthropicVersion?: string;
+  maxTokens?: number; // 指定時は呼び出し側の値より優先
+}
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-3-5-sonnet-20241022";
+
+export class AnthropicProvider implements VisionProvider {
+  readonly name = "anthropic";
+  readonly model: string;
+  private apiUrl: string;
+  private apiKey: string;
+  private anthropicVersion: string;
+  private maxTokens?: number;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.apiUrl = config.apiUrl || "https://api.anthropic.com/v1/messages";
+    this.model = config.model || DEFAULT_ANTHROPIC_MODEL;
+    this.anthropicVersion = config.anthropicVersion || "2023-06-01";
+    this.maxTokens = config.maxTokens;
+
+    if (!this.apiKey) {
+      console.error("⚠️ CLAUDE_API_KEY環境変数が設定されていません");
+    }
+  }
+
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const body: Record<string, unknown> = {
+      model: this.model,
+      max_tokens: this.maxTokens ?? request.maxTokens,
+      messages: request.messages.map((message) => ({
+        role: message.role,
+        content: message.content.map(toAnthropicContent),
+      })),
+      system: request.system,
+    };
+
+    // 構造化出力はtool useで強制する
+    if (request.outputSchema) {
+      body.tools = [
+        {
+          name: request.outputSchema.name,
+          description: request.outputSchema.description,
+          input_schema: request.outputSchema.jsonSchema,
+        },
+      ];
+      body.tool_choice = { type: "tool", name: request.outputSchema.name };
+    }
+
+    const response = await axios.post(this.apiUrl, body, {
+      headers: {
+        "Content-Type": "application/json",
+        "anthropic-version": this.anthropicVersion,
+        "x-api-key": this.apiKey,
+      },
+      timeout: request.timeoutMs,
+      signal: request.signal,
+    });
+
+    const content: any[] = response.data.content || [];
+    const textBlock = content.find((block) => block.type === "text");
+    const toolUse = content.find((block) => block.type === "tool_use");
+
+    const usage = response.data.usage;
+    return {
+      text: textBlock?.text || "",
+      structured: toolUse?.input,
+      model: response.data.model || this.model,
+      usage: usage
+        ? {
+            inputTokens: usage.input_tokens ?? 0,
+            outputTokens: usage.output_tokens ?? 0,
+          }
+        : undefined,
+    };
+  }
+}
+
+function toAnthropicContent(content: VisionContent) {
+  if (content.type === "image") {
+    return {
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: content.image.mediaType,
+        data: content.image.data,
+      },
+    };
+  }
+  return { type: "text", text: content.text };
+}
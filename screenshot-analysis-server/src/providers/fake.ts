@@ -0,0 +1,86 @@
+import { readFileSync } from "node:fs";
+import { sleep } from "../progress.js";
+import {
+  ProviderHttpError,
+  VisionProvider,
+  VisionRequest,
+  VisionResponse,
+} from "./types.js";
+
+// スクリプトの1手。status を指定するとHTTPエラー、それ以外は応答を返す
+export interface FakeScriptEntry {
+  when?: string; // system または最後のテキストにこの文字列を含む呼び出しにだけ使う
+  delay_ms?: number;
+  status?: number; // 例: 529（過負荷）, 503
+  retry_after?: string; // status 指定時の Retry-After ヘッダー（秒）
+  text?: string; // そのまま返すテキスト（壊れたJSONや "+15" を含むJSONも可）
+  json?: unknown; // JSON.stringify して text として返す
+  structured?: unknown; // tool use の構造化出力として返す
+  usage?: { input_tokens: number; output_tokens: number }; // 使用量の集計・予算の確認用
+}
+
+export function loadFakeScript(filePath: string): FakeScriptEntry[] {
+  const script = JSON.parse(readFileSync(filePath, "utf-8"));
+  if (!Array.isArray(script)) {
+    throw new Error(
+      `フェイクプロバイダーのスクリプトは配列にしてください: ${filePath}`
+    );
+  }
+  return script;
+}
+
+function lastText(request: VisionRequest): string {
+  const texts = request.messages.flatMap((message) =>
+    message.content.flatMap((content) =>
+      content.type === "text" ? [content.text] : []
+    )
+  );
+  return texts[texts.length - 1] ?? "";
+}
+
+// スクリプトどおりに応答するプロバイダー（エラーや不正な出力の再現用）
+export class FakeProvider implements VisionProvider {
+  readonly name = "fake";
+  private remaining: FakeScriptEntry[];
+
+  constructor(script: FakeScriptEntry[], readonly model: string = "fake") {
+    this.remaining = [...script];
+  }
+
+  // 条件に合う最初の未使用の手を消費する
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const index = this.remaining.findIndex(
+      (entry) =>
+        !entry.when ||
+        request.system.includes(entry.when) ||
+        lastText(request).includes(entry.when)
+    );
+    if (index < 0) {
+      throw new Error("フェイクプロバイダーのスクリプトを使い切りました");
+    }
+    const [entry] = this.remaining.splice(index, 1);
+
+    if (entry.delay_ms) {
+      await sleep(entry.delay_ms, request.signal);
+    }
+    if (entry.status) {
+      throw new ProviderHttpError(
+        `フェイクプロバイダーのHTTPエラー (${entry.status})`,
+        entry.status,
+        entry.retry_after ? { "retry-after": entry.retry_after } : {}
+      );
+    }
+
+    return {
+      text:
+        entry.text ??
+        (entry.json !== undefined ? JSON.stringify(entry.json) : ""),
+      structured: entry.structured,
+      model: this.model,
+      usage: {
+        inputTokens: entry.usage?.input_tokens ?? 0,
+        outputTokens: entry.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+}
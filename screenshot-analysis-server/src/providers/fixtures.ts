@@ -0,0 +1,160 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import {
+  ProviderHttpError,
+  VisionProvider,
+  VisionRequest,
+  VisionResponse,
+} from "./types.js";
+
+// record: 実際のプロバイダーの応答を保存する / replay: 保存した応答だけで応答する
+export type FixtureMode = "record" | "replay";
+
+// 1回の呼び出しの結果（成功した応答か、HTTPエラー）
+export type FixtureEntry =
+  | { response: VisionResponse }
+  | { error: { status: number; message: string; retry_after?: string } };
+
+export interface FixtureFile {
+  version: 1;
+  key: string;
+  recorded_with: { provider: string; model: string };
+  request: unknown; // 確認用の要約（画像はハッシュに置き換える）
+  entries: FixtureEntry[]; // 同じリクエストが繰り返された順
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+// 画像はハッシュに置き換え、タイムアウトやsignalなど呼び出しごとに変わる値は含めない
+export function summarizeRequest(request: VisionRequest) {
+  return {
+    system: request.system,
+    messages: request.messages.map((message) => ({
+      role: message.role,
+      content: message.content.map((content) =>
+        content.type === "image"
+          ? {
+              type: "image",
+              media_type: content.image.mediaType,
+              sha256: sha256(content.image.data),
+            }
+          : content
+      ),
+    })),
+    max_tokens: request.maxTokens,
+    output_schema: request.outputSchema?.name ?? null,
+  };
+}
+
+export function fixtureKey(request: VisionRequest): string {
+  return sha256(JSON.stringify(summarizeRequest(request)));
+}
+
+function fixturePath(dir: string, key: string): string {
+  return path.join(dir, `${key.slice(0, 24)}.json`);
+}
+
+// 実際のプロバイダーを包み、リクエストと応答の組をフィクスチャとして保存する
+export class RecordingProvider implements VisionProvider {
+  readonly name: string;
+  readonly model: string;
+  // このプロセスで同じリクエストを受けた回数（再試行や再質問の順序を保存するため）
+  private seen = new Map<string, FixtureEntry[]>();
+
+  constructor(private inner: VisionProvider, private dir: string) {
+    this.name = inner.name;
+    this.model = inner.model;
+    console.error(`📼 フィクスチャを記録します: ${dir}`);
+  }
+
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const key = fixtureKey(request);
+    try {
+      const response = await this.inner.complete(request);
+      await this.save(key, request, { response });
+      return response;
+    } catch (error: any) {
+      const status: number | undefined = error?.response?.status;
+      if (status) {
+        const retryAfter = error.response.headers?.["retry-after"];
+        await this.save(key, request, {
+          error: {
+            status,
+            message: error instanceof Error ? error.message : String(error),
+            ...(typeof retryAfter === "string" && { retry_after: retryAfter }),
+          },
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async save(
+    key: string,
+    request: VisionRequest,
+    entry: FixtureEntry
+  ): Promise<void> {
+    const entries = [...(this.seen.get(key) ?? []), entry];
+    this.seen.set(key, entries);
+    const file: FixtureFile = {
+      version: 1,
+      key,
+      recorded_with: { provider: this.inner.name, model: this.inner.model },
+      request: summarizeRequest(request),
+      entries,
+    };
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(
+      fixturePath(this.dir, key),
+      JSON.stringify(file, null, 2)
+    );
+  }
+}
+
+// 保存したフィクスチャだけで応答する（ネットワークに接続しない）
+export class ReplayProvider implements VisionProvider {
+  readonly name = "replay";
+  private served = new Map<string, number>();
+
+  constructor(private dir: string, readonly model: string = "replay") {
+    console.error(`📼 フィクスチャを再生します: ${dir}`);
+  }
+
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const key = fixtureKey(request);
+    let file: FixtureFile;
+    try {
+      file = JSON.parse(await fs.readFile(fixturePath(this.dir, key), "utf-8"));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        throw error;
+      }
+      // 再試行しても結果は変わらないので、リトライされない404として扱う
+      throw new ProviderHttpError(
+        `このリクエストのフィクスチャがありません (${key.slice(0, 24)})`,
+        404
+      );
+    }
+
+    // 記録した順に返し、使い切ったら最後の結果を繰り返す
+    const count = this.served.get(key) ?? 0;
+    this.served.set(key, count + 1);
+    const entry = file.entries[Math.min(count, file.entries.length - 1)];
+    if (!entry) {
+      throw new ProviderHttpError(`フィクスチャが空です (${key})`, 404);
+    }
+    if ("error" in entry) {
+      throw new ProviderHttpError(
+        entry.error.message,
+        entry.error.status,
+        entry.error.retry_after
+          ? { "retry-after": entry.error.retry_after }
+          : {}
+      );
+    }
+    return entry.response;
+  }
+}
@@ -0,0 +1,133 @@
+import { AnthropicProvider } from "./anthropic.js";
+import { FakeProvider, loadFakeScript } from "./fake.js";
+import { FixtureMode, RecordingProvider, ReplayProvider } from "./fixtures.js";
+import { OpenAICompatibleProvider } from "./openaiCompatible.js";
+import { VisionProvider } from "./types.js";
+
+export * from "./types.js";
+export { AnthropicProvider } from "./anthropic.js";
+export { FakeProvider } from "./fake.js";
+export { RecordingProvider, ReplayProvider } from "./fixtures.js";
+export { OpenAICompatibleProvider } from "./openaiCompatible.js";
+
+export type ProviderKind = "anthropic" | "openai-compatible" | "fake";
+
+export interface ProviderConfig {
+  provider: ProviderKind;
+  model?: string;
+  apiKey?: string;
+  apiUrl?: string; // anthropic: messagesエンドポイント / openai-compatible: ベースURL
+  maxTokens?: number;
+  fakeScript?: string; // fake: 応答スクリプト（JSON）のパス
+  fixtureMode?: FixtureMode;
+  fixtureDir?: string;
+}
+
+const DEFAULT_FIXTURE_DIR = "fixtures";
+
+const PROVIDER_KINDS: ProviderKind[] = [
+  "anthropic",
+  "openai-compatible",
+  "fake",
+];
+
+function parseOptionalInt(value: string | undefined): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// 環境変数からプロバイダー設定を読み込む
+export function loadProviderConfig(
+  env: NodeJS.ProcessEnv = process.env
+): ProviderConfig {
+  // 綴り間違いでクラウドに画像を送らないよう、不明な値は既定にせずエラーにする
+  const provider = (env.VISION_PROVIDER || "anthropic") as ProviderKind;
+  if (!PROVIDER_KINDS.includes(provider)) {
+    throw new Error(
+      `不明な VISION_PROVIDER です: ${provider}（${PROVIDER_KINDS.join(
+        " / "
+      )} のいずれかを指定してください）`
+    );
+  }
+  const maxTokens = parseOptionalInt(env.VISION_MAX_TOKENS);
+  const fixtureMode: FixtureMode | undefined =
+    env.VISION_FIXTURE_MODE === "record" || env.VISION_FIXTURE_MODE === "replay"
+      ? env.VISION_FIXTURE_MODE
+      : undefined;
+  const fixtures = {
+    fixtureMode,
+    fixtureDir: env.VISION_FIXTURE_DIR || DEFAULT_FIXTURE_DIR,
+  };
+
+  if (provider === "fake") {
+    return {
+      provider,
+      model: env.VISION_MODEL,
+      fakeScript: env.VISION_FAKE_SCRIPT,
+      ...fixtures,
+    };
+  }
+
+  if (provider === "openai-compatible") {
+    return {
+      provider,
+      model: env.VISION_MODEL,
+      apiKey: env.OPENAI_API_KEY,
+      apiUrl: env.OPENAI_BASE_URL,
+      maxTokens,
+      ...fixtures,
+    };
+  }
+
+  return {
+    provider: "anthropic",
+    model: env.VISION_MODEL,
+    apiKey: env.CLAUDE_API_KEY || "",
+    apiUrl: env.ANTHROPIC_API_URL,
+    maxTokens,
+    ...fixtures,
+  };
+}
+
+// replay ではネットワークに接続するプロバイダーを作らない。record では実際のプロバイダーを包む
+export function createProvider(config: ProviderConfig): VisionProvider {
+  const dir = config.fixtureDir || DEFAULT_FIXTURE_DIR;
+  if (config.fixtureMode === "replay") {
+    return new ReplayProvider(dir, config.model);
+  }
+  const provider = createBaseProvider(config);
+  return config.fixtureMode === "record"
+    ? new RecordingProvider(provider, dir)
+    : provider;
+}
+
+function createBaseProvider(config: ProviderConfig): VisionProvider {
+  switch (config.provider) {
+    case "anthropic":
+      return new AnthropicProvider({
+        apiKey: config.apiKey || "",
+        apiUrl: config.apiUrl,
+        model: config.model,
+        maxTokens: config.maxTokens,
+      });
+
+    case "openai-compatible":
+      return new OpenAICompatibleProvider({
+        baseUrl: config.apiUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+        maxTokens: config.maxTokens,
+      });
+
+    case "fake":
+      if (!config.fakeScript) {
+        throw new Error(
+          "VISION_FAKE_SCRIPT に応答スクリプトのパスを指定してください"
+        );
+      }
+      return new FakeProvider(loadFakeScript(config.fakeScript), config.model);
+
+    default:
+      throw new Error(`Unknown vision provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,95 @@
+import axios from "axios";
+import {
+  VisionContent,
+  VisionProvider,
+  VisionRequest,
+  VisionResponse,
+} from "./types.js";
+
+export interface OpenAICompatibleProviderConfig {
+  baseUrl?: string; // 例: http://localhost:8080/v1（llama.cpp）, http://localhost:11434/v1（Ollama）
+  apiKey?: string;
+  model?: string;
+  maxTokens?: number; // 指定時は呼び出し側の値より優先
+}
+
+// OpenAI互換の /chat/completions エンドポイント（ローカルLLMサーバーやスタブ）
+export class OpenAICompatibleProvider implements VisionProvider {
+  readonly name = "openai-compatible";
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private maxTokens?: number;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.baseUrl = (config.baseUrl || "http://localhost:8080/v1").replace(
+      /\/+$/,
+      ""
+    );
+    this.apiKey = config.apiKey;
+    this.model = config.model || "local-vision-model";
+    this.maxTokens = config.maxTokens;
+  }
+
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const body: Record<string, unknown> = {
+      model: this.model,
+      max_tokens: this.maxTokens ?? request.maxTokens,
+      messages: [
+        { role: "system", content: request.system },
+        ...request.messages.map((message) => ({
+          role: message.role,
+          content: message.content.map(toOpenAIContent),
+        })),
+      ],
+    };
+
+    // 構造化出力はJSONモード（json_schema）で要求する。結果はテキストとして返る
+    if (request.outputSchema) {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: request.outputSchema.name,
+          schema: request.outputSchema.jsonSchema,
+        },
+      };
+    }
+
+    const response = await axios.post(
+      `${this.baseUrl}/chat/completions`,
+      body,
+      { headers, timeout: request.timeoutMs, signal: request.signal }
+    );
+
+    const usage = response.data.usage;
+    return {
+      text: response.data.choices?.[0]?.message?.content || "",
+      model: response.data.model || this.model,
+      usage: usage
+        ? {
+            inputTokens: usage.prompt_tokens ?? 0,
+            outputTokens: usage.completion_tokens ?? 0,
+          }
+        : undefined,
+    };
+  }
+}
+
+function toOpenAIContent(content: VisionContent) {
+  if (content.type === "image") {
+    return {
+      type: "image_url",
+      image_url: {
+        url: `data:${content.image.mediaType};base64,${content.image.data}`,
+      },
+    };
+  }
+  return { type: "text", text: content.text };
+}
@@ -0,0 +1,65 @@
+import { ImageMediaType } from "../imageProcessing.js";
+
+export interface VisionImage {
+  mediaType: ImageMediaType;
+  data: string; // base64
+}
+
+export type VisionContent =
+  | { type: "image"; image: VisionImage }
+  | { type: "text"; text: string };
+
+export interface VisionMessage {
+  role: "user" | "assistant";
+  content: VisionContent[];
+}
+
+// 構造化出力（tool use / JSONモード）で要求する出力形式
+export interface OutputSchema {
+  name: string;
+  description: string;
+  jsonSchema: Record<string, unknown>;
+}
+
+export interface VisionRequest {
+  system: string;
+  messages: VisionMessage[];
+  maxTokens: number;
+  timeoutMs?: number;
+  signal?: AbortSignal; // キャンセル時にHTTPリクエストを中断する
+  outputSchema?: OutputSchema;
+}
+
+export interface VisionUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface VisionResponse {
+  text: string;
+  model: string;
+  usage?: VisionUsage;
+  structured?: unknown; // tool useで返された構造化出力
+}
+
+// 画像を理解できるモデルのバックエンド
+export interface VisionProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: VisionRequest): Promise<VisionResponse>;
+}
+
+// HTTPエラー応答を模したエラー（classifyError は response.status で分類する）
+export class ProviderHttpError extends Error {
+  readonly response: { status: number; headers: Record<string, string> };
+
+  constructor(
+    message: string,
+    status: number,
+    headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+    this.response = { status, headers };
+  }
+}
@@ -0,0 +1,593 @@
+import sharp from "sharp";
+import {
+  deriveCoordinateMapping,
+  DisplayLayout,
+  imageRectToLogical,
+  layoutGeometry,
+  logicalRectToImage,
+  Rect,
+} from "./coordinateMapping.js";
+import { InvalidArgumentsError } from "./errors.js";
+import { decodeBase64Image } from "./imageProcessing.js";
+
+// fill: 黒で塗りつぶす / blur: 読めない程度にぼかす
+export type RedactionMethod = "fill" | "blur";
+
+export type RedactionSource = "caller" | "zone" | "detector";
+
+export type ZoneAnchor =
+  | "top_left"
+  | "top_right"
+  | "bottom_left"
+  | "bottom_right";
+
+// 各ディスプレイの角からの位置で指定する固定の領域（論理ポイント）
+export interface RedactionZone {
+  name: string;
+  anchor: ZoneAnchor;
+  x: number; // 角からの距離（右・下の角なら内側に向かって測る）
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RedactionOptions {
+  method: RedactionMethod;
+  zones: RedactionZone[];
+  detectPasswordFields: boolean;
+}
+
+export interface RedactRegion extends Rect {
+  label: string;
+}
+
+// 隠した領域（グローバル論理座標）
+export interface Redaction {
+  source: RedactionSource;
+  label: string;
+  rect: Rect;
+  method: RedactionMethod;
+}
+
+export interface RedactionResult {
+  imageData: string; // 隠した後の画像（何も隠さなければ入力のまま）
+  redactions: Redaction[];
+}
+
+// 通知バナーはメニューバーの下、右上に積み重なって表示される
+export const PRESET_ZONES: Record<string, RedactionZone> = {
+  menu_bar_clock: {
+    name: "menu_bar_clock",
+    anchor: "top_right",
+    x: 0,
+    y: 0,
+    width: 220,
+    height: 38,
+  },
+  notifications: {
+    name: "notifications",
+    anchor: "top_right",
+    x: 0,
+    y: 24,
+    width: 400,
+    height: 360,
+  },
+};
+
+export const DEFAULT_REDACTION_OPTIONS: RedactionOptions = {
+  method: "fill",
+  zones: [],
+  detectPasswordFields: false,
+};
+
+const METHODS: RedactionMethod[] = ["fill", "blur"];
+
+const ANCHORS: ZoneAnchor[] = [
+  "top_left",
+  "top_right",
+  "bottom_left",
+  "bottom_right",
+];
+
+// 伏せ字の点として扱う連結成分の大きさ（受信画像のピクセル）
+const BULLET_MIN_SIZE = 4;
+const BULLET_MAX_SIZE = 24;
+const BULLET_MIN_COUNT = 4;
+
+// 名前（PRESET_ZONES）か、角からの位置を書いたオブジェクト
+function parseZone(value: any, label: string): RedactionZone {
+  if (typeof value === "string") {
+    const preset = PRESET_ZONES[value];
+    if (!preset) {
+      throw new InvalidArgumentsError(
+        `${label}: 不明な領域 ${value}（${Object.keys(PRESET_ZONES).join(
+          " / "
+        )} またはオブジェクトで指定してください）`
+      );
+    }
+    return preset;
+  }
+  const numbers = [value?.x ?? 0, value?.y ?? 0, value?.width, value?.height];
+  if (
+    !numbers.every((n) => typeof n === "number" && Number.isFinite(n)) ||
+    value.width <= 0 ||
+    value.height <= 0
+  ) {
+    throw new InvalidArgumentsError(
+      `${label} には width, height（と x, y）を数値で指定してください`
+    );
+  }
+  if (value.anchor !== undefined && !ANCHORS.includes(value.anchor)) {
+    throw new InvalidArgumentsError(
+      `${label}.anchor は ${ANCHORS.join(" / ")} のいずれかです`
+    );
+  }
+  return {
+    name: typeof value.name === "string" ? value.name : label,
+    anchor: value.anchor ?? "top_left",
+    x: value.x ?? 0,
+    y: value.y ?? 0,
+    width: value.width,
+    height: value.height,
+  };
+}
+
+function parseZones(value: unknown, label: string): RedactionZone[] {
+  if (!Array.isArray(value)) {
+    throw new InvalidArgumentsError(`${label} は配列で指定してください`);
+  }
+  return value.map((zone, index) => parseZone(zone, `${label}[${index}]`));
+}
+
+function parseFlag(value: string | undefined, name: string): boolean {
+  const normalized = value?.trim().toLowerCase() ?? "";
+  if (["on", "true", "1", "yes"].includes(normalized)) {
+    return true;
+  }
+  if (["", "off", "false", "0", "no"].includes(normalized)) {
+    return false;
+  }
+  throw new Error(`${name} は on / off で指定してください: ${value}`);
+}
+
+// REDACTION_ZONES は領域名のカンマ区切りか、parseZone が受け付けるJSON配列
+// 隠すはずの領域を隠さずに送らないよう、解釈できない設定は起動時のエラーにする
+export function loadRedactionOptions(
+  env: NodeJS.ProcessEnv = process.env
+): RedactionOptions {
+  const defaults = DEFAULT_REDACTION_OPTIONS;
+  let zones = defaults.zones;
+  const zoneSetting = env.REDACTION_ZONES?.trim();
+  if (zoneSetting) {
+    try {
+      zones = parseZones(
+        zoneSetting.startsWith("[")
+          ? JSON.parse(zoneSetting)
+          : zoneSetting.split(",").map((name) => name.trim()),
+        "REDACTION_ZONES"
+      );
+    } catch (error) {
+      throw new Error(
+        `REDACTION_ZONES を解釈できません: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+  return {
+    method: METHODS.includes(env.REDACTION_METHOD as RedactionMethod)
+      ? (env.REDACTION_METHOD as RedactionMethod)
+      : defaults.method,
+    zones,
+    detectPasswordFields: parseFlag(
+      env.REDACTION_DETECT_PASSWORDS,
+      "REDACTION_DETECT_PASSWORDS"
+    ),
+  };
+}
+
+// ツール引数の redaction で、サーバーの設定を呼び出し単位に上書きする
+export function resolveRedactionOptions(
+  value: any,
+  defaults: RedactionOptions
+): RedactionOptions {
+  if (value?.method !== undefined && !METHODS.includes(value.method)) {
+    throw new InvalidArgumentsError(
+      `redaction.method は ${METHODS.join(" / ")} のいずれかです`
+    );
+  }
+  return {
+    method: value?.method ?? defaults.method,
+    zones:
+      value?.zones !== undefined
+        ? parseZones(value.zones, "redaction.zones")
+        : defaults.zones,
+    detectPasswordFields:
+      typeof value?.detect_password_fields === "boolean"
+        ? value.detect_password_fields
+        : defaults.detectPasswordFields,
+  };
+}
+
+export function parseRedactRegions(value: unknown): RedactRegion[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new InvalidArgumentsError("redact_regions は配列で指定してください");
+  }
+  return value.map((item: any, index) => {
+    const numbers = [item?.x, item?.y, item?.width, item?.height];
+    if (
+      !numbers.every((n) => typeof n === "number" && Number.isFinite(n)) ||
+      item.width <= 0 ||
+      item.height <= 0
+    ) {
+      throw new InvalidArgumentsError(
+        `redact_regions[${index}] には x, y, width, height を数値で指定してください`
+      );
+    }
+    return {
+      x: item.x,
+      y: item.y,
+      width: item.width,
+      height: item.height,
+      label:
+        typeof item.label === "string" ? item.label : `region_${index + 1}`,
+    };
+  });
+}
+
+// 固定の領域を各ディスプレイのグローバル論理座標に置く
+function zoneRects(zone: RedactionZone, layout: DisplayLayout): Rect[] {
+  return layout.displays.map(({ frame }) => {
+    const right = zone.anchor.endsWith("right");
+    const bottom = zone.anchor.startsWith("bottom");
+    return {
+      x: right ? frame.x + frame.width - zone.x - zone.width : frame.x + zone.x,
+      y: bottom
+        ? frame.y + frame.height - zone.y - zone.height
+        : frame.y + zone.y,
+      width: zone.width,
+      height: zone.height,
+    };
+  });
+}
+
+// 画像の範囲に収めた整数ピクセルの矩形。はみ出して何も残らなければ null
+function clampToImage(rect: Rect, width: number, height: number) {
+  const left = Math.max(0, Math.floor(rect.x));
+  const top = Math.max(0, Math.floor(rect.y));
+  const right = Math.min(width, Math.ceil(rect.x + rect.width));
+  const bottom = Math.min(height, Math.ceil(rect.y + rect.height));
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+interface Blob {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  cx: number;
+  cy: number;
+}
+
+// 二値マスク上の小さな丸い連結成分（伏せ字の点の候補）を集める
+function findBullets(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  stack: Int32Array
+): Blob[] {
+  const visited = new Uint8Array(width * height);
+  const bullets: Blob[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) {
+      continue;
+    }
+    let minX = width;
+    let minY = height;
+    let maxX = 0;
+    let maxY = 0;
+    let count = 0;
+    let size = 0;
+    stack[size++] = start;
+    visited[start] = 1;
+
+    while (size > 0) {
+      const index = stack[--size];
+      const x = index % width;
+      const y = (index - x) / width;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      count++;
+
+      if (x > 0 && mask[index - 1] && !visited[index - 1]) {
+        visited[index - 1] = 1;
+        stack[size++] = index - 1;
+      }
+      if (x < width - 1 && mask[index + 1] && !visited[index + 1]) {
+        visited[index + 1] = 1;
+        stack[size++] = index + 1;
+      }
+      if (y > 0 && mask[index - width] && !visited[index - width]) {
+        visited[index - width] = 1;
+        stack[size++] = index - width;
+      }
+      if (y < height - 1 && mask[index + width] && !visited[index + width]) {
+        visited[index + width] = 1;
+        stack[size++] = index + width;
+      }
+    }
+
+    const blobWidth = maxX - minX + 1;
+    const blobHeight = maxY - minY + 1;
+    const fill = count / (blobWidth * blobHeight);
+    // 円の占める割合は約0.785
+    if (
+      blobWidth >= BULLET_MIN_SIZE &&
+      blobWidth <= BULLET_MAX_SIZE &&
+      blobHeight >= BULLET_MIN_SIZE &&
+      blobHeight <= BULLET_MAX_SIZE &&
+      Math.abs(blobWidth - blobHeight) <= Math.max(1, blobWidth * 0.25) &&
+      fill >= 0.6 &&
+      fill <= 0.92
+    ) {
+      bullets.push({
+        x: minX,
+        y: minY,
+        width: blobWidth,
+        height: blobHeight,
+        cx: minX + blobWidth / 2,
+        cy: minY + blobHeight / 2,
+      });
+    }
+  }
+  return bullets;
+}
+
+// 同じ高さ・同じ大きさで等間隔に並ぶ点の列を、伏せ字の並んだ入力欄とみなす
+function groupBulletRuns(bullets: Blob[]): Rect[] {
+  const sorted = [...bullets].sort((a, b) => a.cy - b.cy || a.cx - b.cx);
+  const used = new Set<Blob>();
+  const runs: Rect[] = [];
+
+  for (const first of sorted) {
+    if (used.has(first)) {
+      continue;
+    }
+    const row = sorted
+      .filter(
+        (bullet) =>
+          !used.has(bullet) &&
+          Math.abs(bullet.cy - first.cy) <= Math.max(1, first.height * 0.2) &&
+          Math.abs(bullet.width - first.width) <= 2 &&
+          Math.abs(bullet.height - first.height) <= 2
+      )
+      .sort((a, b) => a.cx - b.cx);
+
+    let run = [row[0]];
+    const flush = () => {
+      if (run.length >= BULLET_MIN_COUNT) {
+        run.forEach((bullet) => used.add(bullet));
+        const left = run[0].x;
+        const right = run[run.length - 1].x + run[run.length - 1].width;
+        const top = Math.min(...run.map((bullet) => bullet.y));
+        const bottom = Math.max(
+          ...run.map((bullet) => bullet.y + bullet.height)
+        );
+        runs.push({
+          x: left,
+          y: top,
+          width: right - left,
+          height: bottom - top,
+        });
+      }
+    };
+    for (const bullet of row.slice(1)) {
+      const previous = run[run.length - 1];
+      const gap = bullet.cx - previous.cx;
+      const pitch = run.length > 1 ? run[1].cx - run[0].cx : gap;
+      if (
+        gap >= previous.width * 1.1 &&
+        gap <= previous.width * 3.5 &&
+        Math.abs(gap - pitch) <= 2
+      ) {
+        run.push(bullet);
+      } else {
+        flush();
+        run = [bullet];
+      }
+    }
+    flush();
+    used.add(first);
+  }
+  return runs;
+}
+
+// 伏せ字（●●●●）の並びを探し、入力欄の枠まで左右に広げた領域を返す（受信画像のピクセル）
+export function detectPasswordFields(
+  grey: Uint8Array,
+  width: number,
+  height: number
+): Rect[] {
+  const stack = new Int32Array(width * height);
+  const dark = new Uint8Array(width * height);
+  const light = new Uint8Array(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    dark[i] = grey[i] < 100 ? 1 : 0; // ライトモード: 明るい欄に黒い点
+    light[i] = grey[i] > 170 ? 1 : 0; // ダークモード: 暗い欄に白い点
+  }
+  const runs = [
+    ...groupBulletRuns(findBullets(dark, width, height, stack)),
+    ...groupBulletRuns(findBullets(light, width, height, stack)),
+  ];
+
+  return runs.map((run) => {
+    // 点の列の外側の背景と輝度が大きく違う画素（欄の枠）まで広げる
+    const row = Math.round(run.y + run.height / 2) * width;
+    const reach = run.height * 30;
+    const background = (x: number) =>
+      grey[row + Math.max(0, Math.min(width - 1, x))];
+    const rightBackground = background(run.x + run.width + run.height);
+    let right = run.x + run.width;
+    while (
+      right < Math.min(width - 1, run.x + run.width + reach) &&
+      Math.abs(background(right + 1) - rightBackground) <= 40
+    ) {
+      right++;
+    }
+    const leftBackground = background(run.x - run.height);
+    let left = run.x;
+    while (
+      left > Math.max(0, run.x - run.height * 3) &&
+      Math.abs(background(left - 1) - leftBackground) <= 40
+    ) {
+      left--;
+    }
+    return {
+      x: left,
+      y: run.y - run.height,
+      width: right - left,
+      height: run.height * 3,
+    };
+  });
+}
+
+// アップロード前に、指定・設定・検出した領域を受信画像のフル解像度のまま隠す
+export async function redactImage(
+  imageData: string,
+  layout: DisplayLayout,
+  regions: RedactRegion[],
+  options: RedactionOptions
+): Promise<RedactionResult> {
+  const targets = [
+    ...regions.map((region) => ({
+      source: "caller" as RedactionSource,
+      label: region.label,
+      rect: {
+        x: region.x,
+        y: region.y,
+        width: region.width,
+        height: region.height,
+      },
+    })),
+    ...options.zones.flatMap((zone) =>
+      zoneRects(zone, layout).map((rect) => ({
+        source: "zone" as RedactionSource,
+        label: zone.name,
+        rect,
+      }))
+    ),
+  ];
+  if (targets.length === 0 && !options.detectPasswordFields) {
+    return { imageData, redactions: [] };
+  }
+
+  const input = decodeBase64Image(imageData);
+  const { data, info } = await sharp(input)
+    .rotate()
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  // 受信画像のピクセル ↔ グローバル論理座標の対応
+  const { mapping } = deriveCoordinateMapping(
+    { width, height, originalWidth: width, originalHeight: height },
+    layoutGeometry(layout)
+  );
+
+  const pixelTargets = targets.map((target) => ({
+    ...target,
+    pixels: logicalRectToImage(target.rect, mapping),
+  }));
+  if (options.detectPasswordFields) {
+    const grey = await sharp(data, { raw: { width, height, channels } })
+      .greyscale()
+      .raw()
+      .toBuffer();
+    for (const [index, pixels] of detectPasswordFields(
+      new Uint8Array(grey.buffer, grey.byteOffset, grey.length),
+      width,
+      height
+    ).entries()) {
+      pixelTargets.push({
+        source: "detector",
+        label: `password_field_${index + 1}`,
+        rect: imageRectToLogical(pixels, mapping),
+        pixels,
+      });
+    }
+  }
+
+  const redactions: Redaction[] = [];
+  const overlays: sharp.OverlayOptions[] = [];
+  for (const target of pixelTargets) {
+    const area = clampToImage(target.pixels, width, height);
+    if (!area) {
+      continue;
+    }
+    if (options.method === "blur") {
+      // 大きく縮小してから戻すことで、文字の形が残らないようにする
+      // （sharp は1つのパイプラインで resize を1回しか適用しないため分ける）
+      const reduced = await sharp(data, { raw: { width, height, channels } })
+        .extract(area)
+        .resize(
+          Math.max(1, Math.round(area.width / 16)),
+          Math.max(1, Math.round(area.height / 16)),
+          { fit: "fill" }
+        )
+        .png()
+        .toBuffer();
+      const blurred = await sharp(reduced)
+        .resize(area.width, area.height, { fit: "fill" })
+        .blur(4)
+        .png()
+        .toBuffer();
+      overlays.push({ input: blurred, left: area.left, top: area.top });
+    } else {
+      overlays.push({
+        input: {
+          create: {
+            width: area.width,
+            height: area.height,
+            channels: 3,
+            background: "#000000",
+          },
+        },
+        left: area.left,
+        top: area.top,
+      });
+    }
+    const rect = imageRectToLogical(
+      { x: area.left, y: area.top, width: area.width, height: area.height },
+      mapping
+    );
+    redactions.push({
+      source: target.source,
+      label: target.label,
+      rect: {
+        x: Math.round(rect.x),
+        y: Math.round(rect.y),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height),
+      },
+      method: options.method,
+    });
+  }
+  if (overlays.length === 0) {
+    return { imageData, redactions };
+  }
+
+  const redacted = await sharp(data, { raw: { width, height, channels } })
+    .composite(overlays)
+    .png()
+    .toBuffer();
+  return { imageData: redacted.toString("base64"), redactions };
+}
@@ -0,0 +1,72 @@
+import { Rect } from "./coordinateMapping.js";
+import { NormalizedImage, PixelRegion } from "./imageProcessing.js";
+
+export interface RefinementOptions {
+  contextRatio: number; // 予測枠の大きさに対して周囲に含める余白の比率
+  minContext: number; // 余白の最小値（送信画像のピクセル）
+  minConfidence: number; // これ未満の再検出結果は採用しない
+}
+
+export const DEFAULT_REFINEMENT_OPTIONS: RefinementOptions = {
+  contextRatio: 1.0,
+  minContext: 40,
+  minConfidence: 0.5,
+};
+
+// 送信画像上の予測枠の周囲を、受信画像（フル解像度）の切り出し範囲に変換する
+export function refinementRegion(
+  rect: Rect,
+  image: Pick<
+    NormalizedImage,
+    "width" | "height" | "originalWidth" | "originalHeight"
+  >,
+  options: RefinementOptions = DEFAULT_REFINEMENT_OPTIONS
+): PixelRegion {
+  const padding = Math.max(
+    options.minContext,
+    Math.max(rect.width, rect.height) * options.contextRatio
+  );
+  const scaleX = image.originalWidth / image.width;
+  const scaleY = image.originalHeight / image.height;
+
+  const left = Math.max(0, Math.floor((rect.x - padding) * scaleX));
+  const top = Math.max(0, Math.floor((rect.y - padding) * scaleY));
+  const right = Math.min(
+    image.originalWidth,
+    Math.ceil((rect.x + rect.width + padding) * scaleX)
+  );
+  const bottom = Math.min(
+    image.originalHeight,
+    Math.ceil((rect.y + rect.height + padding) * scaleY)
+  );
+
+  return {
+    left,
+    top,
+    width: Math.max(1, right - left),
+    height: Math.max(1, bottom - top),
+  };
+}
+
+// 切り出し画像上の矩形を送信画像のピクセル座標に戻す
+export function cropRectToImage(
+  rect: Rect,
+  region: PixelRegion,
+  crop: Pick<NormalizedImage, "width" | "height">,
+  image: Pick<
+    NormalizedImage,
+    "width" | "height" | "originalWidth" | "originalHeight"
+  >
+): Rect {
+  const cropScaleX = region.width / crop.width;
+  const cropScaleY = region.height / crop.height;
+  const imageScaleX = image.width / image.originalWidth;
+  const imageScaleY = image.height / image.originalHeight;
+
+  return {
+    x: (region.left + rect.x * cropScaleX) * imageScaleX,
+    y: (region.top + rect.y * cropScaleY) * imageScaleY,
+    width: rect.width * cropScaleX * imageScaleX,
+    height: rect.height * cropScaleY * imageScaleY,
+  };
+}
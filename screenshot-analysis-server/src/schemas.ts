@@ -0,0 +1,668 @@
+import { z } from "zod";
+import { StructuredOutputSpec } from "./structuredOutput.js";
+
+const rectSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+});
+
+const rectJsonSchema = {
+  type: "object",
+  properties: {
+    x: { type: "number" },
+    y: { type: "number" },
+    width: { type: "number", minimum: 0 },
+    height: { type: "number", minimum: 0 },
+  },
+  required: ["x", "y", "width", "height"],
+};
+
+const STEP_ACTION_KINDS = [
+  "click",
+  "double_click",
+  "right_click",
+  "drag",
+  "type_text",
+  "keyboard_shortcut",
+  "scroll",
+] as const;
+
+const SCROLL_DIRECTIONS = ["up", "down", "left", "right"] as const;
+
+type Rect = z.infer<typeof rectSchema>;
+
+// 操作の種類ごとに必要なフィールドがそろっているかを検証する
+// （drag_to は位置と同じ答え方で受け取り、矩形に変換する）
+function stepActionSchemaWith(dragTo: z.ZodType<Rect, z.ZodTypeDef, unknown>) {
+  return z
+    .object({
+      kind: z.enum(STEP_ACTION_KINDS),
+      drag_to: dragTo.nullish(),
+      text: z.string().nullish(),
+      keys: z.array(z.string().min(1)).nullish(),
+      scroll_direction: z.enum(SCROLL_DIRECTIONS).nullish(),
+    })
+    .superRefine((action, context) => {
+      const missing =
+        (action.kind === "drag" && !action.drag_to && "drag_to") ||
+        (action.kind === "type_text" && !action.text && "text") ||
+        (action.kind === "keyboard_shortcut" &&
+          !action.keys?.length &&
+          "keys") ||
+        (action.kind === "scroll" &&
+          !action.scroll_direction &&
+          "scroll_direction");
+      if (missing) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [missing],
+          message: `kind が ${action.kind} の場合は ${missing} が必要です`,
+        });
+      }
+    });
+}
+
+const stepActionSchema = stepActionSchemaWith(rectSchema);
+
+function stepActionJsonSchemaWith(dragTo: Record<string, unknown>) {
+  return {
+    type: "object",
+    properties: {
+      kind: {
+        type: "string",
+        enum: STEP_ACTION_KINDS,
+        description: "操作の種類",
+      },
+      drag_to: dragTo,
+      text: { type: "string", description: "type_text で入力する文字列" },
+      keys: {
+        type: "array",
+        items: { type: "string" },
+        description: 'keyboard_shortcut のキー（例: ["cmd", "shift", "4"]）',
+      },
+      scroll_direction: {
+        type: "string",
+        enum: SCROLL_DIRECTIONS,
+        description: "scroll の方向",
+      },
+    },
+    required: ["kind"],
+  };
+}
+
+const stepActionJsonSchema = stepActionJsonSchemaWith({
+  ...rectJsonSchema,
+  description: "drag のドロップ先（画像のピクセル座標）",
+});
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const pointJsonSchema = {
+  type: "object",
+  properties: { x: { type: "number" }, y: { type: "number" } },
+  required: ["x", "y"],
+};
+
+const annotationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("point"),
+    at: pointSchema,
+    style: z.enum(["dot", "crosshair"]).default("crosshair"),
+  }),
+  z.object({
+    type: z.literal("circle"),
+    center: pointSchema,
+    radius: z.number().positive(),
+  }),
+  z.object({ type: z.literal("arrow"), from: pointSchema, to: pointSchema }),
+  z.object({ type: z.literal("spotlight"), rect: rectSchema }),
+  z.object({
+    type: z.literal("callout"),
+    anchor: pointSchema,
+    text: z.string().min(1),
+    placement: z.enum(["top", "bottom", "left", "right"]).default("bottom"),
+  }),
+]);
+
+const annotationJsonSchema = {
+  description: "矩形以外の注釈図形（座標は画像のピクセル座標）",
+  anyOf: [
+    {
+      type: "object",
+      description: "小さな要素を示す点・十字線",
+      properties: {
+        type: { const: "point" },
+        at: pointJsonSchema,
+        style: { type: "string", enum: ["dot", "crosshair"] },
+      },
+      required: ["type", "at"],
+    },
+    {
+      type: "object",
+      description: "要素を囲む円",
+      properties: {
+        type: { const: "circle" },
+        center: pointJsonSchema,
+        radius: { type: "number", exclusiveMinimum: 0 },
+      },
+      required: ["type", "center", "radius"],
+    },
+    {
+      type: "object",
+      description: "AからBへの矢印（ドラッグ経路など）",
+      properties: {
+        type: { const: "arrow" },
+        from: pointJsonSchema,
+        to: pointJsonSchema,
+      },
+      required: ["type", "from", "to"],
+    },
+    {
+      type: "object",
+      description: "指定領域以外を暗くするスポットライト",
+      properties: { type: { const: "spotlight" }, rect: rectJsonSchema },
+      required: ["type", "rect"],
+    },
+    {
+      type: "object",
+      description: "要素を指す吹き出し",
+      properties: {
+        type: { const: "callout" },
+        anchor: pointJsonSchema,
+        text: { type: "string" },
+        placement: {
+          type: "string",
+          enum: ["top", "bottom", "left", "right"],
+        },
+      },
+      required: ["type", "anchor", "text"],
+    },
+  ],
+};
+
+// analyze_screenshot のモデル出力（座標は送信画像のピクセル座標）
+const analysisStepSchema = rectSchema.extend({
+  text: z.string().min(1),
+  description: z.string().default(""),
+  order: z.number().int().min(1).optional(),
+  action: stepActionSchema.default({ kind: "click" }),
+  precondition: z.string().default(""),
+  expected_result: z.string().default(""),
+  annotations: z.array(annotationSchema).default([]),
+});
+
+const analysisStepJsonSchema = {
+  type: "object",
+  properties: {
+    text: { type: "string", description: "UI要素の名前" },
+    ...rectJsonSchema.properties,
+    description: { type: "string", description: "詳細説明" },
+    order: { type: "integer", minimum: 1, description: "実行順（1始まり）" },
+    action: stepActionJsonSchema,
+    precondition: {
+      type: "string",
+      description: "この操作の前に満たしているべき状態",
+    },
+    expected_result: {
+      type: "string",
+      description: "操作後に期待される画面の変化",
+    },
+    annotations: { type: "array", items: annotationJsonSchema },
+  },
+  required: [
+    "text",
+    "x",
+    "y",
+    "width",
+    "height",
+    "description",
+    "order",
+    "action",
+    "precondition",
+    "expected_result",
+  ],
+};
+
+// 位置を座標以外（グリッドのセル・マーク番号）で答えるステップ用。
+// drag_to も同じ答え方にし、座標でしか表せない注釈図形は求めない
+function analysisStepDetailSchema(
+  dragTo: z.ZodType<Rect, z.ZodTypeDef, unknown>
+) {
+  return analysisStepSchema
+    .omit({
+      x: true,
+      y: true,
+      width: true,
+      height: true,
+      action: true,
+      annotations: true,
+    })
+    .extend({
+      action: stepActionSchemaWith(dragTo).default({ kind: "click" }),
+    });
+}
+
+function analysisStepJsonSchemaWith(
+  positionProperties: Record<string, unknown>,
+  dragTo: Record<string, unknown>
+) {
+  const {
+    x: _x,
+    y: _y,
+    width: _width,
+    height: _height,
+    annotations: _annotations,
+    ...detailProperties
+  } = analysisStepJsonSchema.properties;
+  return {
+    type: "object",
+    properties: {
+      ...positionProperties,
+      ...detailProperties,
+      action: stepActionJsonSchemaWith(dragTo),
+    },
+    required: [
+      ...Object.keys(positionProperties),
+      ...analysisStepJsonSchema.required.filter(
+        (name) => !["x", "y", "width", "height"].includes(name)
+      ),
+    ],
+  };
+}
+
+function analysisResultJsonSchema(stepJsonSchema: Record<string, unknown>) {
+  return {
+    type: "object",
+    properties: {
+      message: { type: "string", description: "ユーザーへの説明メッセージ" },
+      tutorial_steps: { type: "array", items: stepJsonSchema },
+    },
+    required: ["message", "tutorial_steps"],
+  };
+}
+
+export const analysisResultSchema = z.object({
+  message: z.string(),
+  tutorial_steps: z.array(analysisStepSchema),
+});
+
+export type AnalysisStep = z.infer<typeof analysisStepSchema>;
+export type AnalysisResult = z.infer<typeof analysisResultSchema>;
+
+export const analysisResultSpec: StructuredOutputSpec<AnalysisResult> = {
+  name: "report_tutorial_steps",
+  description:
+    "スクリーンショットの分析結果として、ユーザーへの説明とUI要素の位置を報告する",
+  schema: analysisResultSchema,
+  jsonSchema: analysisResultJsonSchema(analysisStepJsonSchema),
+};
+
+// グリッドモード: 要素を覆う左上セルと右下セルで位置を答え、検証時に矩形へ変換する
+export function gridAnalysisResultSpec(
+  cellRangeToRect: (topLeft: string, bottomRight: string) => Rect | null
+): StructuredOutputSpec<AnalysisResult> {
+  const cellRange = {
+    top_left_cell: z.string().min(2),
+    bottom_right_cell: z.string().min(2),
+  };
+  const toRect = (
+    {
+      top_left_cell,
+      bottom_right_cell,
+    }: z.infer<z.ZodObject<typeof cellRange>>,
+    context: z.RefinementCtx
+  ) => {
+    const rect = cellRangeToRect(top_left_cell, bottom_right_cell);
+    if (!rect) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `グリッドに存在しないセルです: ${top_left_cell}〜${bottom_right_cell}`,
+      });
+      return z.NEVER;
+    }
+    return rect;
+  };
+  const stepSchema = analysisStepDetailSchema(
+    z.object(cellRange).transform(toRect)
+  )
+    .extend(cellRange)
+    .transform((step, context) => {
+      const { top_left_cell, bottom_right_cell, ...detail } = step;
+      const rect = toRect({ top_left_cell, bottom_right_cell }, context);
+      return { ...rect, ...detail, annotations: [] };
+    });
+  const cellRangeProperties = {
+    top_left_cell: {
+      type: "string",
+      description: "要素を覆う範囲の左上セル（例: C4）",
+    },
+    bottom_right_cell: {
+      type: "string",
+      description: "要素を覆う範囲の右下セル（例: E5）",
+    },
+  };
+
+  return {
+    ...analysisResultSpec,
+    schema: z.object({
+      message: z.string(),
+      tutorial_steps: z.array(stepSchema),
+    }),
+    jsonSchema: analysisResultJsonSchema(
+      analysisStepJsonSchemaWith(cellRangeProperties, {
+        type: "object",
+        description: "drag のドロップ先を覆う範囲の左上セルと右下セル",
+        properties: cellRangeProperties,
+        required: ["top_left_cell", "bottom_right_cell"],
+      })
+    ),
+  };
+}
+
+// マークモード: 番号付き候補領域のIDで位置を答え、検証時に矩形へ変換する
+export function marksAnalysisResultSpec(
+  markToRect: (markId: number) => Rect | null
+): StructuredOutputSpec<AnalysisResult> {
+  const toRect = (
+    { mark_id }: { mark_id: number },
+    context: z.RefinementCtx
+  ) => {
+    const rect = markToRect(mark_id);
+    if (!rect) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `存在しないマーク番号です: ${mark_id}`,
+      });
+      return z.NEVER;
+    }
+    return rect;
+  };
+  const stepSchema = analysisStepDetailSchema(
+    z.object({ mark_id: z.number().int() }).transform(toRect)
+  )
+    .extend({ mark_id: z.number().int() })
+    .transform((step, context) => {
+      const { mark_id, ...detail } = step;
+      return { ...toRect({ mark_id }, context), ...detail, annotations: [] };
+    });
+
+  return {
+    ...analysisResultSpec,
+    schema: z.object({
+      message: z.string(),
+      tutorial_steps: z.array(stepSchema),
+    }),
+    jsonSchema: analysisResultJsonSchema(
+      analysisStepJsonSchemaWith(
+        {
+          mark_id: {
+            type: "integer",
+            description: "要素を囲む番号付き枠の番号",
+          },
+        },
+        {
+          type: "object",
+          description: "drag のドロップ先を囲む番号付き枠の番号",
+          properties: { mark_id: { type: "integer" } },
+          required: ["mark_id"],
+        }
+      )
+    ),
+  };
+}
+
+// calibrate_steps のモデル出力（番号付きの赤枠ごとの評価、座標は画像のピクセル座標）
+export const calibrationResultSchema = z.object({
+  judgements: z.array(
+    z.object({
+      mark: z.number().int().min(1),
+      accuracy_score: z.number().min(0).max(1),
+      feedback: z.string().default(""),
+      corrected_position: rectSchema.nullable().default(null),
+    })
+  ),
+});
+
+export type CalibrationResult = z.infer<typeof calibrationResultSchema>;
+
+export const calibrationResultSpec: StructuredOutputSpec<CalibrationResult> = {
+  name: "report_box_accuracy",
+  description:
+    "画像に描かれた番号付きの赤枠それぞれの位置精度と修正位置を報告する",
+  schema: calibrationResultSchema,
+  jsonSchema: {
+    type: "object",
+    properties: {
+      judgements: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            mark: { type: "integer", minimum: 1, description: "赤枠の番号" },
+            accuracy_score: {
+              type: "number",
+              minimum: 0,
+              maximum: 1,
+              description: "0.0（完全に外れ）〜1.0（完璧）",
+            },
+            feedback: { type: "string", description: "ずれの説明" },
+            corrected_position: {
+              ...rectJsonSchema,
+              type: ["object", "null"],
+              description:
+                "要素を正しく囲む枠（画像のピクセル座標）。正確ならnull",
+            },
+          },
+          required: [
+            "mark",
+            "accuracy_score",
+            "feedback",
+            "corrected_position",
+          ],
+        },
+      },
+    },
+    required: ["judgements"],
+  },
+};
+
+// 拡大画像での再検出結果（座標は拡大画像のピクセル座標）
+export const refinedLocationSchema = rectSchema.extend({
+  found: z.boolean(),
+  confidence: z.number().min(0).max(1),
+});
+
+export type RefinedLocation = z.infer<typeof refinedLocationSchema>;
+
+export const refinedLocationSpec: StructuredOutputSpec<RefinedLocation> = {
+  name: "report_refined_location",
+  description: "拡大画像の中でのUI要素の正確な位置を報告する",
+  schema: refinedLocationSchema,
+  jsonSchema: {
+    type: "object",
+    properties: {
+      found: {
+        type: "boolean",
+        description: "拡大画像の中に対象の要素が見つかったか",
+      },
+      ...rectJsonSchema.properties,
+      confidence: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "位置の確信度",
+      },
+    },
+    required: ["found", "x", "y", "width", "height", "confidence"],
+  },
+};
+
+// verify_overlay_accuracy のモデル出力（座標は論理座標）
+export const verificationResultSchema = z.object({
+  accuracy_score: z.number().min(0).max(1),
+  position_offset: z.object({ x: z.number(), y: z.number() }),
+  size_correction: z.object({ width: z.number(), height: z.number() }),
+  feedback: z.string(),
+  corrected_position: rectSchema.nullable().default(null),
+});
+
+export type VerificationResult = z.infer<typeof verificationResultSchema>;
+
+export const verificationResultSpec: StructuredOutputSpec<VerificationResult> =
+  {
+    name: "report_overlay_accuracy",
+    description: "赤枠の位置精度の評価結果と補正量を報告する",
+    schema: verificationResultSchema,
+    jsonSchema: {
+      type: "object",
+      properties: {
+        accuracy_score: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+          description: "0.0（完全に外れ）〜1.0（完璧）",
+        },
+        position_offset: {
+          type: "object",
+          description: "必要な位置補正（論理座標）",
+          properties: { x: { type: "number" }, y: { type: "number" } },
+          required: ["x", "y"],
+        },
+        size_correction: {
+          type: "object",
+          description: "必要なサイズ補正（論理座標）",
+          properties: {
+            width: { type: "number" },
+            height: { type: "number" },
+          },
+          required: ["width", "height"],
+        },
+        feedback: { type: "string", description: "人間向けのフィードバック" },
+        corrected_position: {
+          ...rectJsonSchema,
+          description: "修正後の推奨座標（論理座標）",
+        },
+      },
+      required: [
+        "accuracy_score",
+        "position_offset",
+        "size_correction",
+        "feedback",
+        "corrected_position",
+      ],
+    },
+  };
+
+// start_tutorial のモデル出力（目標達成までの大まかな計画）
+export const tutorialPlanSchema = z.object({
+  message: z.string(),
+  plan: z
+    .array(
+      z.object({
+        title: z.string().min(1),
+        description: z.string().default(""),
+      })
+    )
+    .min(1),
+});
+
+export type TutorialPlan = z.infer<typeof tutorialPlanSchema>;
+
+export const tutorialPlanSpec: StructuredOutputSpec<TutorialPlan> = {
+  name: "report_tutorial_plan",
+  description: "ユーザーの目標を達成するための操作計画を報告する",
+  schema: tutorialPlanSchema,
+  jsonSchema: {
+    type: "object",
+    properties: {
+      message: { type: "string", description: "ユーザーへの説明メッセージ" },
+      plan: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string", description: "計画項目の短い名前" },
+            description: { type: "string", description: "操作内容の説明" },
+          },
+          required: ["title", "description"],
+        },
+      },
+    },
+    required: ["message", "plan"],
+  },
+};
+
+// next_step のモデル出力（現在の画面で行うべき操作1つ）
+export const nextStepSchema = z.object({
+  status: z.enum(["in_progress", "completed"]),
+  completed_count: z.number().int().min(0),
+  message: z.string(),
+  step: analysisStepSchema.nullable(),
+});
+
+export type NextStepResult = z.infer<typeof nextStepSchema>;
+
+export const nextStepSpec: StructuredOutputSpec<NextStepResult> = {
+  name: "report_next_step",
+  description: "現在の画面でユーザーが次に行うべき操作を1つ報告する",
+  schema: nextStepSchema,
+  jsonSchema: {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        enum: ["in_progress", "completed"],
+        description: "目標が達成済みなら completed",
+      },
+      completed_count: {
+        type: "integer",
+        minimum: 0,
+        description: "画面から判断して完了済みの計画項目の数",
+      },
+      message: { type: "string", description: "ユーザーへの説明メッセージ" },
+      step: {
+        ...analysisStepJsonSchema,
+        type: ["object", "null"],
+        description: "次に操作するUI要素（完了時はnull）",
+      },
+    },
+    required: ["status", "completed_count", "message", "step"],
+  },
+};
+
+// check_step_completed のモデル出力（操作前後の画面比較による判定）
+export const stepCompletionSchema = z.object({
+  status: z.enum(["completed", "not_yet", "went_wrong"]),
+  reason: z.string(),
+  confidence: z.number().min(0).max(1),
+});
+
+export type StepCompletion = z.infer<typeof stepCompletionSchema>;
+
+export const stepCompletionSpec: StructuredOutputSpec<StepCompletion> = {
+  name: "report_step_completion",
+  description: "操作ステップが完了したかどうかの判定結果を報告する",
+  schema: stepCompletionSchema,
+  jsonSchema: {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        enum: ["completed", "not_yet", "went_wrong"],
+        description:
+          "期待した変化が起きたら completed、まだ操作されていなければ not_yet、別の画面に進むなど想定外の結果なら went_wrong",
+      },
+      reason: { type: "string", description: "判定理由（ユーザー向け）" },
+      confidence: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "判定の確信度",
+      },
+    },
+    required: ["status", "reason", "confidence"],
+  },
+};
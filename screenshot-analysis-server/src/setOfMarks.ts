@@ -0,0 +1,352 @@
+import sharp from "sharp";
+import { Rect } from "./coordinateMapping.js";
+import { NormalizedImage, overlaySvg } from "./imageProcessing.js";
+import { labelCellRegions } from "./pixelRegions.js";
+import {
+  directInstruction,
+  gridInstruction,
+  marksInstruction,
+} from "./prompts.js";
+import {
+  AnalysisResult,
+  analysisResultSpec,
+  gridAnalysisResultSpec,
+  marksAnalysisResultSpec,
+} from "./schemas.js";
+import { StructuredOutputSpec } from "./structuredOutput.js";
+
+// direct: ピクセル座標を直接答える / grid: セル番地で答える / marks: 候補領域の番号で答える
+export type LocalizationMode = "direct" | "grid" | "marks";
+
+export const LOCALIZATION_MODES: LocalizationMode[] = [
+  "direct",
+  "grid",
+  "marks",
+];
+
+export interface GridSpec {
+  columns: number;
+  rows: number;
+  cellWidth: number; // 送信画像のピクセル
+  cellHeight: number;
+}
+
+export interface Mark {
+  id: number;
+  rect: Rect; // 送信画像のピクセル座標
+}
+
+export interface MarkDetectionOptions {
+  analysisWidth: number; // エッジ検出用に縮小する幅
+  edgeThreshold: number; // ラプラシアンの絶対値がこれを超えたらエッジ
+  cellSize: number; // エッジをまとめるセルの大きさ（縮小後のピクセル）
+  minSize: number; // 候補領域の最小の幅・高さ（送信画像のピクセル）
+  maxAreaRatio: number; // 画像全体に対する候補領域の最大面積比
+  maxMarks: number;
+}
+
+// モデルに送る画像と、回答形式・回答を矩形に戻すスキーマの組
+export interface LocalizationStrategy {
+  mode: LocalizationMode;
+  image: NormalizedImage;
+  instruction: string;
+  exampleFields: string; // プロンプトのJSON例に入れる位置フィールド
+  dragTo: string; // drag のドロップ先の答え方
+  annotations: boolean; // 座標で注釈図形を答えさせるか（direct のみ）
+  spec: StructuredOutputSpec<AnalysisResult>;
+  info: Record<string, unknown>;
+  warnings: string[];
+}
+
+export const DEFAULT_GRID_CELL_SIZE = 48;
+
+export const DEFAULT_MARK_DETECTION: MarkDetectionOptions = {
+  analysisWidth: 480,
+  edgeThreshold: 48,
+  cellSize: 3,
+  minSize: 12,
+  maxAreaRatio: 0.04,
+  maxMarks: 80,
+};
+
+const MARK_COLORS = ["#ff2d55", "#007aff", "#34c759", "#ff9500", "#af52de"];
+
+export function parseLocalizationMode(value: unknown): LocalizationMode {
+  return LOCALIZATION_MODES.includes(value as LocalizationMode)
+    ? (value as LocalizationMode)
+    : "direct";
+}
+
+export function buildGrid(
+  width: number,
+  height: number,
+  cellSize: number = DEFAULT_GRID_CELL_SIZE
+): GridSpec {
+  const columns = Math.max(1, Math.round(width / cellSize));
+  const rows = Math.max(1, Math.round(height / cellSize));
+  return {
+    columns,
+    rows,
+    cellWidth: width / columns,
+    cellHeight: height / rows,
+  };
+}
+
+// 0 → A, 25 → Z, 26 → AA（表計算ソフトと同じ列名）
+export function columnLabel(index: number): string {
+  let label = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+export function cellLabel(column: number, row: number): string {
+  return `${columnLabel(column)}${row + 1}`;
+}
+
+export function parseCellLabel(
+  label: string,
+  grid: GridSpec
+): { column: number; row: number } | null {
+  const match = /^([A-Z]+)(\d+)$/.exec(label.trim().toUpperCase());
+  if (!match) {
+    return null;
+  }
+  const column =
+    [...match[1]].reduce((n, char) => n * 26 + char.charCodeAt(0) - 64, 0) - 1;
+  const row = parseInt(match[2], 10) - 1;
+  if (column >= grid.columns || row < 0 || row >= grid.rows) {
+    return null;
+  }
+  return { column, row };
+}
+
+// 2つのセル（順不同）で囲まれる範囲を送信画像のピクセル矩形にする
+export function cellRangeToRect(
+  topLeft: string,
+  bottomRight: string,
+  grid: GridSpec
+): Rect | null {
+  const a = parseCellLabel(topLeft, grid);
+  const b = parseCellLabel(bottomRight, grid);
+  if (!a || !b) {
+    return null;
+  }
+  const left = Math.min(a.column, b.column);
+  const top = Math.min(a.row, b.row);
+  const right = Math.max(a.column, b.column) + 1;
+  const bottom = Math.max(a.row, b.row) + 1;
+  return {
+    x: left * grid.cellWidth,
+    y: top * grid.cellHeight,
+    width: (right - left) * grid.cellWidth,
+    height: (bottom - top) * grid.cellHeight,
+  };
+}
+
+function gridSvg(grid: GridSpec, width: number, height: number): string {
+  const fontSize = Math.max(8, Math.round(grid.cellHeight / 4));
+  const lines: string[] = [];
+  for (let column = 1; column < grid.columns; column++) {
+    const x = (column * grid.cellWidth).toFixed(1);
+    lines.push(`<line x1="${x}" y1="0" x2="${x}" y2="${height}"/>`);
+  }
+  for (let row = 1; row < grid.rows; row++) {
+    const y = (row * grid.cellHeight).toFixed(1);
+    lines.push(`<line x1="0" y1="${y}" x2="${width}" y2="${y}"/>`);
+  }
+
+  const labels: string[] = [];
+  for (let row = 0; row < grid.rows; row++) {
+    for (let column = 0; column < grid.columns; column++) {
+      const x = (column * grid.cellWidth + 2).toFixed(1);
+      const y = (row * grid.cellHeight + fontSize).toFixed(1);
+      labels.push(`<text x="${x}" y="${y}">${cellLabel(column, row)}</text>`);
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+<g stroke="#ff00ff" stroke-opacity="0.45" stroke-width="1">${lines.join("")}</g>
+<g font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" fill="#ff00ff" fill-opacity="0.8" stroke="#ffffff" stroke-width="2" stroke-opacity="0.7" paint-order="stroke">${labels.join(
+    ""
+  )}</g>
+</svg>`;
+}
+
+// エッジの塊をUI要素の候補とみなし、番号付きマークの位置を求める
+export async function detectCandidateMarks(
+  image: NormalizedImage,
+  options: Partial<MarkDetectionOptions> = {}
+): Promise<Mark[]> {
+  const {
+    analysisWidth,
+    edgeThreshold,
+    cellSize,
+    minSize,
+    maxAreaRatio,
+    maxMarks,
+  } = { ...DEFAULT_MARK_DETECTION, ...options };
+
+  const width = Math.min(analysisWidth, image.width);
+  const height = Math.max(1, Math.round((image.height * width) / image.width));
+  const pixels = await sharp(Buffer.from(image.data, "base64"))
+    .resize(width, height, { fit: "fill" })
+    .greyscale()
+    .raw()
+    .toBuffer();
+
+  // 4近傍ラプラシアンの絶対値がしきい値を超える画素を含むセルをエッジセルとする
+  const columns = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const edgeCells = new Uint8Array(columns * rows);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      const laplacian =
+        4 * pixels[index] -
+        pixels[index - 1] -
+        pixels[index + 1] -
+        pixels[index - width] -
+        pixels[index + width];
+      if (Math.abs(laplacian) > edgeThreshold) {
+        edgeCells[
+          Math.floor(y / cellSize) * columns + Math.floor(x / cellSize)
+        ] = 1;
+      }
+    }
+  }
+
+  const scale = image.width / width;
+  const maxArea = image.width * image.height * maxAreaRatio;
+  const candidates = labelCellRegions(edgeCells, columns, rows)
+    .map((region) => ({
+      x: region.minColumn * cellSize * scale,
+      y: region.minRow * cellSize * scale,
+      width: (region.maxColumn - region.minColumn + 1) * cellSize * scale,
+      height: (region.maxRow - region.minRow + 1) * cellSize * scale,
+    }))
+    .filter(
+      (rect) =>
+        rect.width >= minSize &&
+        rect.height >= minSize &&
+        rect.width * rect.height <= maxArea
+    )
+    // 多すぎる場合は大きい候補を優先する
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .slice(0, maxMarks)
+    // 番号は読み順（上から下、左から右）で振る
+    .sort((a, b) => Math.round(a.y / 8) - Math.round(b.y / 8) || a.x - b.x);
+
+  return candidates.map((rect, index) => ({ id: index + 1, rect }));
+}
+
+function marksSvg(marks: Mark[], width: number, height: number): string {
+  const fontSize = 12;
+  const shapes = marks.map((mark, index) => {
+    const color = MARK_COLORS[index % MARK_COLORS.length];
+    const { x, y, width: w, height: h } = mark.rect;
+    const label = String(mark.id);
+    const labelWidth = label.length * 7 + 6;
+    const labelY = Math.max(0, y - fontSize - 2);
+    return `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${w.toFixed(
+      1
+    )}" height="${h.toFixed(
+      1
+    )}" fill="none" stroke="${color}" stroke-width="1.5"/>
+<rect x="${x.toFixed(1)}" y="${labelY.toFixed(
+      1
+    )}" width="${labelWidth}" height="${fontSize + 2}" fill="${color}"/>
+<text x="${(x + 3).toFixed(1)}" y="${(labelY + fontSize - 1).toFixed(
+      1
+    )}">${label}</text>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+<g font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" font-weight="bold" fill="#ffffff">${shapes.join(
+    "\n"
+  )}</g>
+</svg>`;
+}
+
+async function gridStrategy(
+  image: NormalizedImage,
+  warnings: string[]
+): Promise<LocalizationStrategy> {
+  const grid = buildGrid(image.width, image.height);
+  return {
+    mode: "grid",
+    image: await overlaySvg(image, gridSvg(grid, image.width, image.height)),
+    instruction: gridInstruction(
+      grid.columns,
+      grid.rows,
+      columnLabel(grid.columns - 1)
+    ),
+    exampleFields: `"top_left_cell": "C4",
+      "bottom_right_cell": "E4",`,
+    dragTo:
+      'drag_to（ドロップ先を覆う範囲の左上セルと右下セル。例: {"top_left_cell": "H2", "bottom_right_cell": "H3"}）',
+    annotations: false,
+    spec: gridAnalysisResultSpec((topLeft, bottomRight) =>
+      cellRangeToRect(topLeft, bottomRight, grid)
+    ),
+    info: {
+      mode: "grid",
+      columns: grid.columns,
+      rows: grid.rows,
+      cell_width: grid.cellWidth,
+      cell_height: grid.cellHeight,
+    },
+    warnings,
+  };
+}
+
+// 位置の答えさせ方に応じて、送信画像への描き込みとスキーマを用意する
+export async function prepareLocalization(
+  mode: LocalizationMode,
+  image: NormalizedImage
+): Promise<LocalizationStrategy> {
+  if (mode === "grid") {
+    return gridStrategy(image, []);
+  }
+
+  if (mode === "marks") {
+    const marks = await detectCandidateMarks(image);
+    if (marks.length === 0) {
+      return gridStrategy(image, [
+        "UI要素の候補領域を検出できなかったため、グリッドモードで分析しました",
+      ]);
+    }
+    const byId = new Map(marks.map((mark) => [mark.id, mark.rect]));
+    console.error(`🔢 候補マーク: ${marks.length}個`);
+    return {
+      mode: "marks",
+      image: await overlaySvg(
+        image,
+        marksSvg(marks, image.width, image.height)
+      ),
+      instruction: marksInstruction(marks.length),
+      exampleFields: `"mark_id": 12,`,
+      dragTo: 'drag_to（ドロップ先を囲む枠の番号。例: {"mark_id": 7}）',
+      annotations: false,
+      spec: marksAnalysisResultSpec((markId) => byId.get(markId) ?? null),
+      info: { mode: "marks", marks: marks.length },
+      warnings: [],
+    };
+  }
+
+  return {
+    mode: "direct",
+    image,
+    instruction: directInstruction(image),
+    exampleFields: `"x": 100,
+      "y": 100,
+      "width": 200,
+      "height": 50,`,
+    dragTo: "drag_to（画像のピクセル座標）",
+    annotations: true,
+    spec: analysisResultSpec,
+    info: { mode: "direct" },
+    warnings: [],
+  };
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import {
+  OutputSchema,
+  VisionMessage,
+  VisionRequest,
+  VisionResponse,
+} from "./providers/index.js";
+
+// モデルに構造化出力を要求するための定義（zodで検証、JSON Schemaでモデルに提示）
+export interface StructuredOutputSpec<T> extends OutputSchema {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+export class StructuredOutputError extends Error {
+  readonly errorCode = "invalid_model_output";
+
+  constructor(
+    message: string,
+    readonly validationErrors: string[],
+    readonly rawResponse: string,
+    readonly attempts: number
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export type CompleteFn = (request: VisionRequest) => Promise<VisionResponse>;
+
+// 検証エラー時にモデルへ再質問する回数
+const DEFAULT_MAX_REPAIRS = 2;
+
+// "x": +15 のような符号付き数値はJSONとして不正なので、文字列リテラルの外にある
+// 値の先頭の「+」だけを取り除く（"Cmd+1" などの文字列はそのまま残す）
+function stripPlusSigns(json: string): string {
+  let result = "";
+  let inString = false;
+  let escaped = false;
+  let previous = ""; // 文字列の外で直前にあった空白以外の文字
+
+  for (const char of json) {
+    if (inString) {
+      result += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        previous = char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "+" && [":", ",", "["].includes(previous)) {
+      continue;
+    }
+    if (!/\s/.test(char)) {
+      previous = char;
+    }
+    result += char;
+  }
+  return result;
+}
+
+// テキスト応答からJSONオブジェクト部分を取り出す
+export function extractJsonCandidate(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const source = fenced ? fenced[1] : text;
+
+  const start = source.indexOf("{");
+  const end = source.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new SyntaxError("応答にJSONオブジェクトが含まれていません");
+  }
+
+  return JSON.parse(stripPlusSigns(source.slice(start, end + 1)));
+}
+
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+    return `${path}: ${issue.message}`;
+  });
+}
+
+// 構造化出力を要求し、スキーマ検証に失敗した場合はエラー内容を添えて再質問する
+export async function requestStructured<T>(
+  complete: CompleteFn,
+  request: VisionRequest,
+  spec: StructuredOutputSpec<T>,
+  maxRepairs: number = DEFAULT_MAX_REPAIRS
+): Promise<{ value: T; response: VisionResponse; attempts: number }> {
+  const messages: VisionMessage[] = [...request.messages];
+  let validationErrors: string[] = [];
+  let rawResponse = "";
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const response = await complete({
+      ...request,
+      messages,
+      outputSchema: spec,
+    });
+    rawResponse =
+      response.structured !== undefined
+        ? JSON.stringify(response.structured)
+        : response.text;
+
+    let candidate: unknown;
+    try {
+      candidate = response.structured ?? extractJsonCandidate(response.text);
+      const parsed = spec.schema.safeParse(candidate);
+      if (parsed.success) {
+        return { value: parsed.data, response, attempts: attempt };
+      }
+      validationErrors = formatZodIssues(parsed.error);
+    } catch (error) {
+      validationErrors = [
+        `JSON解析エラー: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      ];
+    }
+
+    console.error(
+      `⚠️ ${spec.name} のスキーマ検証に失敗 (試行 ${attempt}/${
+        maxRepairs + 1
+      }):`,
+      validationErrors.join("; ")
+    );
+
+    messages.push(
+      {
+        role: "assistant",
+        content: [{ type: "text", text: rawResponse || "(空の応答)" }],
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `直前の回答は ${
+              spec.name
+            } のスキーマに適合しませんでした。以下のエラーを修正し、JSONオブジェクトのみで回答し直してください。\n${validationErrors
+              .map((e) => `- ${e}`)
+              .join("\n")}`,
+          },
+        ],
+      }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `モデル出力が ${spec.name} のスキーマに適合しませんでした`,
+    validationErrors,
+    rawResponse,
+    maxRepairs + 1
+  );
+}
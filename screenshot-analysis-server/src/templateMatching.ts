@@ -0,0 +1,369 @@
+import sharp from "sharp";
+import { GreyscaleImage } from "./boxSnapping.js";
+import { Rect } from "./coordinateMapping.js";
+import { InvalidArgumentsError } from "./errors.js";
+import { decodeBase64Image, NormalizedImage } from "./imageProcessing.js";
+import { intersectionOverUnion } from "./uiElements.js";
+
+export interface TemplateMatchOptions {
+  minScore: number; // 正規化相互相関がこれ以上の位置を一致とする
+  maxResults: number;
+  scales: number[]; // 参照画像の拡大率（スクリーンショットと同じ画素密度を1とする）
+  coarseSize: number; // 粗い探索で参照画像の短辺をこの大きさまで縮小する
+  candidatesPerScale: number; // 粗い探索から精密な照合に進める候補数
+  maxOverlap: number; // これ以上重なる一致は、スコアの高いほうだけ残す
+  minStdDev: number; // 輝度の標準偏差がこれ未満の領域（無地）は照合しない
+}
+
+export interface TemplateMatch {
+  rect: Rect; // 送信画像のピクセル座標
+  score: number;
+  scale: number;
+}
+
+export const DEFAULT_TEMPLATE_MATCH_OPTIONS: TemplateMatchOptions = {
+  minScore: 0.8,
+  maxResults: 10,
+  scales: [0.5, 0.625, 0.8, 1, 1.25, 1.6, 2],
+  coarseSize: 10,
+  candidatesPerScale: 30,
+  maxOverlap: 0.3,
+  minStdDev: 2,
+};
+
+// これより小さくなる拡大率は照合しない（特徴が潰れて誤一致が増える）
+const MIN_TEMPLATE_SIZE = 6;
+
+// 粗い探索では精密な照合より低めのスコアでも候補に残す
+const COARSE_SCORE_MARGIN = 0.2;
+
+interface IntegralImage {
+  sum: Float64Array;
+  squared: Float64Array;
+  stride: number;
+}
+
+interface PreparedTemplate {
+  width: number;
+  height: number;
+  centered: Float64Array; // 平均を引いた輝度
+  norm: number;
+}
+
+async function greyscale(
+  input: Buffer,
+  width?: number,
+  height?: number
+): Promise<GreyscaleImage> {
+  let pipeline = sharp(input).rotate();
+  if (width && height) {
+    pipeline = pipeline.resize(width, height, { fit: "fill" });
+  }
+  // 透過部分は白とみなす
+  const { data, info } = await pipeline
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { width: info.width, height: info.height, data };
+}
+
+function integralImage(image: GreyscaleImage): IntegralImage {
+  const stride = image.width + 1;
+  const sum = new Float64Array(stride * (image.height + 1));
+  const squared = new Float64Array(stride * (image.height + 1));
+  for (let y = 0; y < image.height; y++) {
+    let rowSum = 0;
+    let rowSquared = 0;
+    for (let x = 0; x < image.width; x++) {
+      const value = image.data[y * image.width + x];
+      rowSum += value;
+      rowSquared += value * value;
+      const index = (y + 1) * stride + x + 1;
+      sum[index] = sum[index - stride] + rowSum;
+      squared[index] = squared[index - stride] + rowSquared;
+    }
+  }
+  return { sum, squared, stride };
+}
+
+function windowSum(
+  table: Float64Array,
+  stride: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): number {
+  return (
+    table[(y + height) * stride + x + width] -
+    table[y * stride + x + width] -
+    table[(y + height) * stride + x] +
+    table[y * stride + x]
+  );
+}
+
+function prepareTemplate(image: GreyscaleImage): PreparedTemplate | null {
+  const count = image.width * image.height;
+  const mean = image.data.reduce((sum, value) => sum + value, 0) / count;
+  const centered = new Float64Array(count);
+  let squared = 0;
+  for (let i = 0; i < count; i++) {
+    centered[i] = image.data[i] - mean;
+    squared += centered[i] * centered[i];
+  }
+  if (squared === 0) {
+    return null;
+  }
+  return {
+    width: image.width,
+    height: image.height,
+    centered,
+    norm: Math.sqrt(squared),
+  };
+}
+
+// (x, y) に参照画像を置いたときの正規化相互相関（-1〜1）
+function correlationAt(
+  image: GreyscaleImage,
+  integral: IntegralImage,
+  template: PreparedTemplate,
+  x: number,
+  y: number,
+  minStdDev: number
+): number {
+  const { width, height } = template;
+  const count = width * height;
+  const sum = windowSum(integral.sum, integral.stride, x, y, width, height);
+  const squared = windowSum(
+    integral.squared,
+    integral.stride,
+    x,
+    y,
+    width,
+    height
+  );
+  const variance = squared - (sum * sum) / count;
+  if (variance <= minStdDev * minStdDev * count) {
+    return -1;
+  }
+
+  // 参照画像側は平均を引いてあるので、画像側の平均を引かなくても同じ値になる
+  let cross = 0;
+  for (let row = 0; row < height; row++) {
+    const imageOffset = (y + row) * image.width + x;
+    const templateOffset = row * width;
+    for (let column = 0; column < width; column++) {
+      cross +=
+        template.centered[templateOffset + column] *
+        image.data[imageOffset + column];
+    }
+  }
+  return cross / (template.norm * Math.sqrt(variance));
+}
+
+// 縮小画像の全位置で照合し、極大になる位置を候補として返す
+function coarseCandidates(
+  image: GreyscaleImage,
+  template: PreparedTemplate,
+  options: TemplateMatchOptions
+): { x: number; y: number; score: number }[] {
+  const integral = integralImage(image);
+  const columns = image.width - template.width + 1;
+  const rows = image.height - template.height + 1;
+  const scores = new Float32Array(columns * rows);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      scores[y * columns + x] = correlationAt(
+        image,
+        integral,
+        template,
+        x,
+        y,
+        options.minStdDev
+      );
+    }
+  }
+
+  const threshold = options.minScore - COARSE_SCORE_MARGIN;
+  const candidates: { x: number; y: number; score: number }[] = [];
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      const score = scores[y * columns + x];
+      if (score < threshold) {
+        continue;
+      }
+      let isPeak = true;
+      for (let dy = -1; dy <= 1 && isPeak; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (
+            (dx || dy) &&
+            nx >= 0 &&
+            ny >= 0 &&
+            nx < columns &&
+            ny < rows &&
+            scores[ny * columns + nx] > score
+          ) {
+            isPeak = false;
+            break;
+          }
+        }
+      }
+      if (isPeak) {
+        candidates.push({ x, y, score });
+      }
+    }
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.candidatesPerScale);
+}
+
+// 粗い探索の候補の周辺だけを、送信画像の解像度で照合し直す
+function refineCandidate(
+  image: GreyscaleImage,
+  integral: IntegralImage,
+  template: PreparedTemplate,
+  center: { x: number; y: number },
+  radius: number,
+  minStdDev: number
+): { x: number; y: number; score: number } | null {
+  let best: { x: number; y: number; score: number } | null = null;
+  const maxX = image.width - template.width;
+  const maxY = image.height - template.height;
+  for (
+    let y = Math.max(0, center.y - radius);
+    y <= Math.min(maxY, center.y + radius);
+    y++
+  ) {
+    for (
+      let x = Math.max(0, center.x - radius);
+      x <= Math.min(maxX, center.x + radius);
+      x++
+    ) {
+      const score = correlationAt(image, integral, template, x, y, minStdDev);
+      if (!best || score > best.score) {
+        best = { x, y, score };
+      }
+    }
+  }
+  return best;
+}
+
+function suppressOverlaps(
+  matches: TemplateMatch[],
+  maxOverlap: number
+): TemplateMatch[] {
+  const kept: TemplateMatch[] = [];
+  for (const match of [...matches].sort((a, b) => b.score - a.score)) {
+    if (
+      kept.every(
+        (other) => intersectionOverUnion(match.rect, other.rect) < maxOverlap
+      )
+    ) {
+      kept.push(match);
+    }
+  }
+  return kept;
+}
+
+// 参照画像（アイコンや保存済みの切り出し）と同じ見た目の箇所を、複数の拡大率で探す
+export async function findTemplateMatches(
+  image: NormalizedImage,
+  templateData: string,
+  options: Partial<TemplateMatchOptions> = {}
+): Promise<TemplateMatch[]> {
+  const resolved = { ...DEFAULT_TEMPLATE_MATCH_OPTIONS, ...options };
+  const screenshotBuffer = Buffer.from(image.data, "base64");
+  const templateBuffer = decodeBase64Image(templateData);
+
+  const metadata = await sharp(templateBuffer).metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new InvalidArgumentsError("参照画像のサイズを取得できません");
+  }
+  // 参照画像は受信したスクリーンショットと同じ画素密度で切り出されたものとみなす
+  const density = image.width / image.originalWidth;
+
+  const screenshot = await greyscale(screenshotBuffer);
+  const integral = integralImage(screenshot);
+  const matches: TemplateMatch[] = [];
+  let searchedScales = 0;
+
+  for (const scale of resolved.scales) {
+    const width = Math.round(metadata.width * density * scale);
+    const height = Math.round(metadata.height * density * scale);
+    if (
+      Math.min(width, height) < MIN_TEMPLATE_SIZE ||
+      width > screenshot.width ||
+      height > screenshot.height
+    ) {
+      continue;
+    }
+    const template = prepareTemplate(
+      await greyscale(templateBuffer, width, height)
+    );
+    if (!template) {
+      throw new InvalidArgumentsError(
+        "参照画像が無地のため照合できません（模様のある部分を切り出してください）"
+      );
+    }
+    searchedScales++;
+
+    const factor = Math.max(1, Math.min(width, height) / resolved.coarseSize);
+    const coarseWidth = Math.max(1, Math.round(width / factor));
+    const coarseHeight = Math.max(1, Math.round(height / factor));
+    const coarseTemplate = prepareTemplate(
+      await greyscale(templateBuffer, coarseWidth, coarseHeight)
+    );
+    if (!coarseTemplate) {
+      continue;
+    }
+    const coarseImage =
+      factor === 1
+        ? screenshot
+        : await greyscale(
+            screenshotBuffer,
+            Math.max(coarseWidth, Math.round(screenshot.width / factor)),
+            Math.max(coarseHeight, Math.round(screenshot.height / factor))
+          );
+
+    for (const candidate of coarseCandidates(
+      coarseImage,
+      coarseTemplate,
+      resolved
+    )) {
+      const refined = refineCandidate(
+        screenshot,
+        integral,
+        template,
+        {
+          x: Math.round((candidate.x * screenshot.width) / coarseImage.width),
+          y: Math.round((candidate.y * screenshot.height) / coarseImage.height),
+        },
+        Math.ceil(factor) + 1,
+        resolved.minStdDev
+      );
+      if (refined && refined.score >= resolved.minScore) {
+        matches.push({
+          rect: { x: refined.x, y: refined.y, width, height },
+          score: refined.score,
+          scale,
+        });
+      }
+    }
+  }
+
+  if (searchedScales === 0) {
+    throw new InvalidArgumentsError(
+      "参照画像の大きさがスクリーンショットに対して大きすぎるか小さすぎます"
+    );
+  }
+
+  return suppressOverlaps(matches, resolved.maxOverlap).slice(
+    0,
+    resolved.maxResults
+  );
+}
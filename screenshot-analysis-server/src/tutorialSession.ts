@@ -0,0 +1,146 @@
+import { randomUUID } from "node:crypto";
+import { InvalidArgumentsError } from "./errors.js";
+import { VisionMessage } from "./providers/index.js";
+import { TutorialPlan } from "./schemas.js";
+import { TutorialStep } from "./types.js";
+
+export interface TutorialSession {
+  id: string;
+  goal: string;
+  plan: TutorialPlan["plan"];
+  completedCount: number; // 完了済みの計画項目数
+  completedSteps: TutorialStep[]; // ユーザーが実行済みの操作
+  currentStep: TutorialStep | null;
+  status: "in_progress" | "completed";
+  history: VisionMessage[]; // テキストのみの会話履歴（画像は保持しない）
+  turn: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TutorialSessionStoreOptions {
+  idleTimeoutMs: number; // 最終操作からこの時間が経ったセッションは破棄
+  maxHistoryMessages: number; // モデルに渡す履歴の上限
+  maxSessions: number;
+}
+
+const DEFAULT_OPTIONS: TutorialSessionStoreOptions = {
+  idleTimeoutMs: 30 * 60 * 1000,
+  maxHistoryMessages: 12,
+  maxSessions: 100,
+};
+
+// 目標駆動チュートリアルのセッション状態をメモリ上で保持する
+export class TutorialSessionStore {
+  private sessions = new Map<string, TutorialSession>();
+  private options: TutorialSessionStoreOptions;
+
+  constructor(options: Partial<TutorialSessionStoreOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  create(goal: string, plan: TutorialPlan["plan"]): TutorialSession {
+    this.sweep();
+    if (this.sessions.size >= this.options.maxSessions) {
+      // 最も古いセッションから破棄する
+      const oldest = [...this.sessions.values()].sort(
+        (a, b) => a.updatedAt - b.updatedAt
+      )[0];
+      this.sessions.delete(oldest.id);
+    }
+
+    const now = Date.now();
+    const session: TutorialSession = {
+      id: randomUUID(),
+      goal,
+      plan,
+      completedCount: 0,
+      completedSteps: [],
+      currentStep: null,
+      status: "in_progress",
+      history: [],
+      turn: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  get(sessionId: string): TutorialSession {
+    this.sweep();
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new InvalidArgumentsError(
+        `チュートリアルセッションが見つかりません（終了済みか期限切れ）: ${sessionId}`
+      );
+    }
+    return session;
+  }
+
+  // 1ターン分の結果を記録する。前回の操作は画面が進んだ時点で完了済みとみなす
+  recordTurn(
+    session: TutorialSession,
+    update: {
+      completedCount: number;
+      status: TutorialSession["status"];
+      step: TutorialStep | null;
+      userMessage: string;
+      assistantMessage: string;
+    }
+  ) {
+    const advanced = update.completedCount > session.completedCount;
+    if (session.currentStep && (advanced || update.status === "completed")) {
+      session.completedSteps.push(session.currentStep);
+    }
+
+    session.completedCount = Math.min(
+      Math.max(session.completedCount, update.completedCount),
+      session.plan.length
+    );
+    session.status = update.status;
+    session.currentStep = update.step;
+    session.turn++;
+    session.updatedAt = Date.now();
+
+    session.history.push(
+      { role: "user", content: [{ type: "text", text: update.userMessage }] },
+      {
+        role: "assistant",
+        content: [{ type: "text", text: update.assistantMessage }],
+      }
+    );
+    if (session.history.length > this.options.maxHistoryMessages) {
+      session.history = session.history.slice(-this.options.maxHistoryMessages);
+    }
+  }
+
+  delete(sessionId: string): TutorialSession {
+    const session = this.get(sessionId);
+    this.sessions.delete(sessionId);
+    return session;
+  }
+
+  private sweep(now: number = Date.now()) {
+    for (const [id, session] of this.sessions) {
+      if (now - session.updatedAt > this.options.idleTimeoutMs) {
+        this.sessions.delete(id);
+        console.error(`🧹 期限切れのチュートリアルセッションを破棄: ${id}`);
+      }
+    }
+  }
+}
+
+export function describeProgress(session: TutorialSession) {
+  const total = session.plan.length;
+  return {
+    completed: session.completedCount,
+    total,
+    percent: total > 0 ? Math.round((session.completedCount / total) * 100) : 0,
+    current_index:
+      session.status === "completed"
+        ? null
+        : Math.min(session.completedCount, total - 1),
+    status: session.status,
+  };
+}
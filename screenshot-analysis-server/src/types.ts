@@ -0,0 +1,148 @@
+import { Rect } from "./coordinateMapping.js";
+
+export type StepActionKind =
+  | "click"
+  | "double_click"
+  | "right_click"
+  | "drag"
+  | "type_text"
+  | "keyboard_shortcut"
+  | "scroll";
+
+export type ScrollDirection = "up" | "down" | "left" | "right";
+
+// ステップでユーザーが行う操作。種類に応じて使うフィールドが決まる
+export interface StepAction {
+  kind: StepActionKind;
+  drag_to?: Rect; // drag: ドロップ先（グローバル論理座標）
+  text?: string; // type_text: 入力する文字列
+  keys?: string[]; // keyboard_shortcut: 例 ["cmd", "shift", "4"]
+  scroll_direction?: ScrollDirection; // scroll
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type CalloutPlacement = "top" | "bottom" | "left" | "right";
+
+// 矩形以外の注釈図形（座標はすべてグローバル論理座標）
+export type Annotation =
+  | { type: "point"; at: Point; style: "dot" | "crosshair" }
+  | { type: "circle"; center: Point; radius: number }
+  | { type: "arrow"; from: Point; to: Point }
+  | { type: "spotlight"; rect: Rect } // rect以外を暗くする
+  | {
+      type: "callout";
+      anchor: Point; // 吹き出しが指す位置
+      text: string;
+      placement: CalloutPlacement; // anchorから見た吹き出しの位置
+    };
+
+// 拡大画像での再検出（coarse-to-fine）の結果
+export interface StepRefinement {
+  applied: boolean; // 再検出結果で枠を置き換えたか
+  confidence?: number;
+  original?: Rect; // 置き換え前の枠（グローバル論理座標）
+  reason?: string; // 置き換えなかった理由
+}
+
+// エッジへの吸着（ローカルの画素解析）の結果。移動量は論理座標
+export interface StepSnapping {
+  applied: boolean;
+  confidence: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+}
+
+// 枠の座標の出どころ（accessibility: ui_elements の実フレーム / visual: 画像からの推定 / template: find_template の画素照合）
+export type CoordinateSource = "accessibility" | "visual" | "template";
+
+// ui_elements との照合結果
+export interface StepElementMatch {
+  role: string;
+  title: string;
+  score: number;
+  label_similarity: number;
+  iou: number; // 推定枠と実フレームの重なり
+}
+
+// 検証履歴から学習した補正を適用した場合の補正量（論理座標）
+export interface AppliedCorrection {
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+  samples: number;
+  scope: "app" | "region";
+}
+
+export interface TutorialStep {
+  id: string;
+  text: string;
+  x: number; // グローバル論理座標
+  y: number;
+  width: number;
+  height: number;
+  description: string;
+  order: number; // 実行順（1始まり）
+  action: StepAction;
+  precondition: string; // この操作の前に満たしているべき状態
+  expected_result: string; // 操作後に期待される画面の変化
+  annotations: Annotation[];
+  refinement?: StepRefinement;
+  snapping?: StepSnapping;
+  learned_correction?: AppliedCorrection;
+  coordinate_source?: CoordinateSource;
+  ui_element?: StepElementMatch;
+  match_score?: number; // find_template の一致スコア（正規化相互相関）
+  display_id?: string | number;
+  local?: Rect; // ディスプレイ内の論理座標
+  global?: Rect; // 全ディスプレイ共通の論理座標
+}
+
+const KEY_SYMBOLS: Record<string, string> = {
+  cmd: "⌘",
+  command: "⌘",
+  shift: "⇧",
+  option: "⌥",
+  alt: "⌥",
+  ctrl: "⌃",
+  control: "⌃",
+};
+
+const SCROLL_LABELS: Record<ScrollDirection, string> = {
+  up: "上",
+  down: "下",
+  left: "左",
+  right: "右",
+};
+
+// ログやオーバーレイ表示用の操作の短い説明
+export function describeAction(action: StepAction): string {
+  switch (action.kind) {
+    case "click":
+      return "クリック";
+    case "double_click":
+      return "ダブルクリック";
+    case "right_click":
+      return "右クリック";
+    case "drag":
+      return action.drag_to
+        ? `(${Math.round(action.drag_to.x)}, ${Math.round(
+            action.drag_to.y
+          )}) へドラッグ`
+        : "ドラッグ";
+    case "type_text":
+      return `「${action.text ?? ""}」を入力`;
+    case "keyboard_shortcut":
+      return `${(action.keys ?? [])
+        .map((key) => KEY_SYMBOLS[key.toLowerCase()] ?? key.toUpperCase())
+        .join("")} を押す`;
+    case "scroll":
+      return `${SCROLL_LABELS[action.scroll_direction ?? "down"]}へスクロール`;
+  }
+}
@@ -0,0 +1,192 @@
+import { Rect } from "./coordinateMapping.js";
+import { InvalidArgumentsError } from "./errors.js";
+
+// クライアントがアクセシビリティツリーから読み取った要素
+export interface UIElement {
+  role: string; // 例: AXButton, AXMenuBarItem
+  title: string; // AXTitle（無ければAXDescriptionなど、クライアントが選んだ表示名）
+  frame: Rect; // グローバル論理座標
+}
+
+export interface ElementMatch {
+  element: UIElement;
+  score: number; // labelSimilarity と geometry の加重和
+  labelSimilarity: number; // 0〜1
+  iou: number;
+}
+
+export interface ElementMatchOptions {
+  labelWeight: number; // 総合スコアに占めるラベル類似度の比率
+  minScore: number; // これ未満は一致とみなさない
+  minLabelSimilarity: number; // ラベルがこれ未満なら重なりだけでは採用しない
+  proximityRange: number; // 重なりが無い場合に近さを評価する距離（論理ポイント）
+}
+
+export const DEFAULT_ELEMENT_MATCH_OPTIONS: ElementMatchOptions = {
+  labelWeight: 0.6,
+  minScore: 0.5,
+  minLabelSimilarity: 0.3,
+  proximityRange: 200,
+};
+
+// プロンプトに載せる要素名の上限（ツリー全体を渡されても長くなりすぎないように）
+const MAX_PROMPT_ELEMENTS = 80;
+
+export function parseUIElements(value: unknown): UIElement[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new InvalidArgumentsError("ui_elements は配列で指定してください");
+  }
+
+  return value.flatMap((item: any, index): UIElement[] => {
+    const frame = item?.frame;
+    const numbers = [frame?.x, frame?.y, frame?.width, frame?.height];
+    if (!numbers.every((n) => typeof n === "number" && Number.isFinite(n))) {
+      throw new InvalidArgumentsError(
+        `ui_elements[${index}].frame には x, y, width, height を数値で指定してください`
+      );
+    }
+    // 大きさの無い要素（非表示のもの）は照合の対象外
+    if (frame.width <= 0 || frame.height <= 0) {
+      return [];
+    }
+    return [
+      {
+        role: typeof item.role === "string" ? item.role : "",
+        title: typeof item.title === "string" ? item.title : "",
+        frame: {
+          x: frame.x,
+          y: frame.y,
+          width: frame.width,
+          height: frame.height,
+        },
+      },
+    ];
+  });
+}
+
+// 比較用に表記ゆれ（全角半角・大文字小文字・空白・記号）を取り除く
+function normalizeLabel(label: string): string {
+  return label
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]+/gu, "");
+}
+
+function bigrams(text: string): string[] {
+  const chars = [...text];
+  if (chars.length < 2) {
+    return chars;
+  }
+  return chars.slice(0, -1).map((char, index) => char + chars[index + 1]);
+}
+
+// 表記ゆれを除いて一致するか、一方が他方を含む（"Save" と "Save button" など）
+export function sameLabel(a: string, b: string): boolean {
+  const x = normalizeLabel(a);
+  const y = normalizeLabel(b);
+  if (x === y) {
+    return true;
+  }
+  return x !== "" && y !== "" && (x.includes(y) || y.includes(x));
+}
+
+// 一致=1、包含は短いほうの割合、それ以外はバイグラムのDice係数
+export function labelSimilarity(a: string, b: string): number {
+  const x = normalizeLabel(a);
+  const y = normalizeLabel(b);
+  if (!x || !y) {
+    return 0;
+  }
+  if (x === y) {
+    return 1;
+  }
+  const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+  if (longer.includes(shorter)) {
+    return 0.5 + (0.5 * [...shorter].length) / [...longer].length;
+  }
+
+  const xs = bigrams(x);
+  const remaining = bigrams(y);
+  let common = 0;
+  for (const gram of xs) {
+    const index = remaining.indexOf(gram);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      common++;
+    }
+  }
+  return (2 * common) / (xs.length + bigrams(y).length);
+}
+
+export function intersectionOverUnion(a: Rect, b: Rect): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) {
+    return 0;
+  }
+  const intersection = width * height;
+  return (
+    intersection / (a.width * a.height + b.width * b.height - intersection)
+  );
+}
+
+// 重なりが無くても近ければ少しだけ評価する（小さい要素は枠が外れやすい）
+function geometryScore(
+  rect: Rect,
+  frame: Rect,
+  options: ElementMatchOptions
+): { iou: number; geometry: number } {
+  const iou = intersectionOverUnion(rect, frame);
+  const distance = Math.hypot(
+    rect.x + rect.width / 2 - (frame.x + frame.width / 2),
+    rect.y + rect.height / 2 - (frame.y + frame.height / 2)
+  );
+  const proximity = Math.max(0, 1 - distance / options.proximityRange);
+  return { iou, geometry: Math.max(iou, 0.5 * proximity) };
+}
+
+// モデルが示した要素名と枠に最もよく合う実在の要素を選ぶ
+export function matchUIElement(
+  target: Rect & { text: string },
+  elements: UIElement[],
+  options: ElementMatchOptions = DEFAULT_ELEMENT_MATCH_OPTIONS
+): ElementMatch | null {
+  let best: ElementMatch | null = null;
+
+  for (const element of elements) {
+    const similarity = labelSimilarity(target.text, element.title);
+    const { iou, geometry } = geometryScore(target, element.frame, options);
+    // 同名の要素が離れた場所にもあるので、重ならず近くもない要素は名前だけでは採用しない
+    if (similarity < options.minLabelSimilarity || geometry <= 0) {
+      continue;
+    }
+    const score =
+      options.labelWeight * similarity + (1 - options.labelWeight) * geometry;
+    if (score >= options.minScore && (!best || score > best.score)) {
+      best = { element, score, labelSimilarity: similarity, iou };
+    }
+  }
+
+  return best;
+}
+
+// モデルが画面上の名前をそのまま使えるよう、要素名をプロンプトに載せる
+export function uiElementsSection(elements: UIElement[]): string {
+  const titles = [
+    ...new Set(
+      elements
+        .filter((element) => element.title.trim())
+        .map((element) => `${element.title.trim()}（${element.role}）`)
+    ),
+  ].slice(0, MAX_PROMPT_ELEMENTS);
+  if (titles.length === 0) {
+    return "";
+  }
+
+  return `## 画面上の要素名（アクセシビリティ情報）：
+${titles.map((title) => `- ${title}`).join("\n")}
+該当する要素がある場合、text にはこの名前をそのまま使ってください。`;
+}
@@ -0,0 +1,531 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ApiError, UsageMeter } from "./apiClient.js";
+import { VisionRequest, VisionResponse } from "./providers/index.js";
+
+// 100万トークンあたりの料金（USD）
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface BudgetOptions {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+}
+
+export interface UsageTrackerOptions {
+  filePath: string | null; // 月ごとに usage-YYYY-MM.jsonl に分けて追記する。null ならメモリ上だけで集計する
+  pricing: Record<string, ModelPricing>; // モデル名の前方一致
+  budget: BudgetOptions;
+}
+
+// モデル呼び出し1回分の記録
+export interface UsageRecord {
+  at: number;
+  tool: string;
+  session: string;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  images: number;
+  image_bytes: number;
+  latency_ms: number;
+  cost_usd: number;
+  priced: boolean; // 料金表にあるモデルか（無ければ費用0として集計）
+}
+
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  images: number;
+  image_bytes: number;
+  cost_usd: number;
+  mean_latency_ms: number;
+  unpriced_calls: number;
+}
+
+type BudgetPeriod = "daily" | "monthly";
+
+// 公開されている料金（2024年時点）。USAGE_PRICING で上書き・追加できる
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-opus-4": { input: 15, output: 75 },
+  fake: { input: 0, output: 0 },
+  replay: { input: 0, output: 0 },
+};
+
+// 月の予算を判定するため、前月の初めより古い記録は捨てる
+const RETENTION_MS = 62 * 24 * 60 * 60 * 1000;
+
+// 予算の見込み額に使う直近の呼び出しの件数
+const ESTIMATE_WINDOW = 20;
+
+export function defaultUsageLogPath(): string {
+  return path.join(os.homedir(), ".ponko2", "usage.jsonl");
+}
+
+// usage.jsonl → usage-2024-10.jsonl（月が変われば新しいファイルに追記する）
+function monthlyLogPath(filePath: string, month: string): string {
+  const { dir, name, ext } = path.parse(filePath);
+  return path.join(dir, `${name}-${month}${ext}`);
+}
+
+function parseBudget(value: string | undefined): number | null {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function parsePricing(value: string | undefined): Record<string, ModelPricing> {
+  if (!value) {
+    return {};
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error("⚠️ USAGE_PRICING を解釈できないため無視します:", error);
+    return {};
+  }
+}
+
+// USAGE_LOG_PATH=off で記録を保存しない（予算の判定はプロセス内の集計だけになる）
+export function loadUsageTrackerOptions(
+  env: NodeJS.ProcessEnv = process.env
+): UsageTrackerOptions {
+  const logPath = env.USAGE_LOG_PATH;
+  return {
+    filePath: logPath === "off" ? null : logPath || defaultUsageLogPath(),
+    pricing: {
+      ...DEFAULT_MODEL_PRICING,
+      ...parsePricing(env.USAGE_PRICING),
+    },
+    budget: {
+      dailyUsd: parseBudget(env.USAGE_DAILY_BUDGET_USD),
+      monthlyUsd: parseBudget(env.USAGE_MONTHLY_BUDGET_USD),
+    },
+  };
+}
+
+// 日・月の区切りはサーバーのローカル時刻で判定する
+function dayKey(time: number): string {
+  const date = new Date(time);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+function monthKey(time: number): string {
+  return dayKey(time).slice(0, 7);
+}
+
+// since から now までにかかる月（古い順）
+function monthsBetween(since: number, now: number): string[] {
+  const months: string[] = [];
+  const date = new Date(since);
+  date.setDate(1);
+  while (date.getTime() <= now) {
+    months.push(monthKey(date.getTime()));
+    date.setMonth(date.getMonth() + 1);
+  }
+  return months;
+}
+
+function periodEnd(period: BudgetPeriod, now: number): number {
+  const date = new Date(now);
+  return period === "daily"
+    ? new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate() + 1
+      ).getTime()
+    : new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime();
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function imageStats(request: VisionRequest) {
+  const images = request.messages.flatMap((message) =>
+    message.content.flatMap((content) =>
+      content.type === "image" ? [content.image] : []
+    )
+  );
+  return {
+    images: images.length,
+    // base64 の長さから元のバイト数を見積もる
+    image_bytes: images.reduce(
+      (sum, image) => sum + Math.floor((image.data.length * 3) / 4),
+      0
+    ),
+  };
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageTotals {
+  const sum = (pick: (record: UsageRecord) => number) =>
+    records.reduce((total, record) => total + pick(record), 0);
+  return {
+    calls: records.length,
+    input_tokens: sum((record) => record.input_tokens),
+    output_tokens: sum((record) => record.output_tokens),
+    images: sum((record) => record.images),
+    image_bytes: sum((record) => record.image_bytes),
+    cost_usd: roundUsd(sum((record) => record.cost_usd)),
+    mean_latency_ms:
+      records.length > 0
+        ? Math.round(sum((record) => record.latency_ms) / records.length)
+        : 0,
+    unpriced_calls: records.filter((record) => !record.priced).length,
+  };
+}
+
+function groupBy(
+  records: UsageRecord[],
+  key: (record: UsageRecord) => string
+): Record<string, UsageTotals> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const id = key(record);
+    groups.set(id, [...(groups.get(id) ?? []), record]);
+  }
+  return Object.fromEntries(
+    [...groups].map(([id, group]) => [id, summarizeUsage(group)])
+  );
+}
+
+// モデル呼び出しのトークン数・費用を記録し、予算を超えたら呼び出しを止める
+// 記録は追記だけのJSONLにし、判定のたびに他のプロセスが追記した分も読み込む
+export class UsageTracker {
+  private records: UsageRecord[] = [];
+  private offsets = new Map<string, number>(); // 月ごとのファイルを読んだ位置
+  private reading: Promise<void> = Promise.resolve();
+  private writing: Promise<void> = Promise.resolve();
+  private removedExpired = false;
+  private reservedUsd = 0; // 実行中の呼び出しのために確保した見込み額
+
+  constructor(private options: UsageTrackerOptions) {}
+
+  get path(): string | null {
+    return this.options.filePath;
+  }
+
+  // ツール呼び出し1回分の計測口（ResilientApiClient に渡す）
+  meter(tool: string, session: string): UsageMeter {
+    return {
+      reserve: () => this.reserve(),
+      record: (request, response, provider, latencyMs) =>
+        this.record({
+          tool,
+          session,
+          provider,
+          request,
+          response,
+          latencyMs,
+        }),
+    };
+  }
+
+  // 予算が残っていれば呼び出し1回分の見込み額を確保し、解放する関数を返す
+  // （同時に実行される呼び出しがそろって予算の確認を通り抜けないように）
+  async reserve(now: number = Date.now()): Promise<() => void> {
+    if (
+      this.options.budget.dailyUsd === null &&
+      this.options.budget.monthlyUsd === null
+    ) {
+      return () => undefined;
+    }
+    await this.refresh(now);
+    // 確認と確保の間に他の呼び出しが割り込まないよう、await を挟まない
+    this.throwIfOverBudget(now);
+    const estimate = this.estimateCost();
+    this.reservedUsd += estimate;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.reservedUsd -= estimate;
+      }
+    };
+  }
+
+  async assertWithinBudget(now: number = Date.now()): Promise<void> {
+    await this.refresh(now);
+    this.throwIfOverBudget(now);
+  }
+
+  async record(call: {
+    tool: string;
+    session: string;
+    provider: string;
+    request: VisionRequest;
+    response: VisionResponse;
+    latencyMs: number;
+  }): Promise<UsageRecord> {
+    const inputTokens = call.response.usage?.inputTokens ?? 0;
+    const outputTokens = call.response.usage?.outputTokens ?? 0;
+    // 再生した応答は記録時のモデル名を持つが、実際には課金されない
+    const pricing = this.pricingFor(
+      call.provider === "replay" ? "replay" : call.response.model
+    );
+    const record: UsageRecord = {
+      at: Date.now(),
+      tool: call.tool,
+      session: call.session,
+      provider: call.provider,
+      model: call.response.model,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      ...imageStats(call.request),
+      latency_ms: call.latencyMs,
+      cost_usd: pricing
+        ? roundUsd(
+            (inputTokens * pricing.input + outputTokens * pricing.output) / 1e6
+          )
+        : 0,
+      priced: pricing !== null,
+    };
+    console.error(
+      `💰 ${
+        record.tool
+      }: 入力${inputTokens} / 出力${outputTokens}トークン, $${record.cost_usd.toFixed(
+        4
+      )} (${record.model})`
+    );
+    try {
+      await this.append(record);
+    } catch (error) {
+      // 保存できなくても、このプロセスの予算の判定には含める
+      console.error("⚠️ 使用量の保存に失敗:", error);
+      this.records.push(record);
+    }
+    try {
+      await this.refresh(record.at);
+    } catch (error) {
+      console.error("⚠️ 使用量の記録の読み込みに失敗:", error);
+    }
+    return record;
+  }
+
+  // 直近 days 日の日別と、その期間のツール別・セッション別・モデル別の集計
+  async stats(days: number, session?: string, now: number = Date.now()) {
+    await this.refresh(now);
+    const since = new Date(now);
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - (days - 1));
+    const records = this.records.filter(
+      (record) =>
+        record.at >= since.getTime() && (!session || record.session === session)
+    );
+    return {
+      since: dayKey(since.getTime()),
+      totals: summarizeUsage(records),
+      today: summarizeUsage(
+        this.records.filter((record) => dayKey(record.at) === dayKey(now))
+      ),
+      this_month: summarizeUsage(
+        this.records.filter((record) => monthKey(record.at) === monthKey(now))
+      ),
+      budget: this.budgetStatus(now),
+      by_day: groupBy(records, (record) => dayKey(record.at)),
+      by_tool: groupBy(records, (record) => record.tool),
+      by_session: groupBy(records, (record) => record.session),
+      by_model: groupBy(records, (record) => record.model),
+    };
+  }
+
+  private throwIfOverBudget(now: number) {
+    for (const status of this.budgetStatus(now)) {
+      if (status.remaining_usd > 0) {
+        continue;
+      }
+      const resetsAt = periodEnd(status.period, now);
+      throw new ApiError(
+        `${status.period === "daily" ? "1日" : "1か月"}の予算 $${
+          status.limit_usd
+        } に達したため、モデルの呼び出しを停止しています（使用額 $${status.spent_usd.toFixed(
+          4
+        )}、${new Date(resetsAt).toLocaleString("ja-JP")} に再開）`,
+        "budget_exceeded",
+        false,
+        undefined,
+        resetsAt - now
+      );
+    }
+  }
+
+  private budgetStatus(now: number) {
+    const periods: [BudgetPeriod, number | null, (time: number) => string][] = [
+      ["daily", this.options.budget.dailyUsd, dayKey],
+      ["monthly", this.options.budget.monthlyUsd, monthKey],
+    ];
+    return periods.flatMap(([period, limit, key]) => {
+      if (limit === null) {
+        return [];
+      }
+      const spent = roundUsd(
+        this.records
+          .filter((record) => key(record.at) === key(now))
+          .reduce((sum, record) => sum + record.cost_usd, 0)
+      );
+      return [
+        {
+          period,
+          limit_usd: limit,
+          spent_usd: spent,
+          reserved_usd: roundUsd(this.reservedUsd),
+          remaining_usd: roundUsd(
+            Math.max(0, limit - spent - this.reservedUsd)
+          ),
+          resets_at: new Date(periodEnd(period, now)).toISOString(),
+        },
+      ];
+    });
+  }
+
+  // 最も長く一致したモデル名の料金を使う（例: claude-3-5-sonnet-20241022）
+  private pricingFor(model: string): ModelPricing | null {
+    const match = Object.keys(this.options.pricing)
+      .filter((prefix) => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? this.options.pricing[match] : null;
+  }
+
+  private prune(now: number) {
+    this.records = this.records.filter(
+      (record) => now - record.at <= RETENTION_MS
+    );
+  }
+
+  // 直近の呼び出しの平均費用（記録が無ければ0）
+  private estimateCost(): number {
+    const recent = this.records.slice(-ESTIMATE_WINDOW);
+    return recent.length > 0
+      ? recent.reduce((sum, record) => sum + record.cost_usd, 0) / recent.length
+      : 0;
+  }
+
+  // 読み込みは直列化し、同じ行を二重に数えないようにする
+  private refresh(now: number): Promise<void> {
+    this.reading = this.reading
+      .catch(() => undefined)
+      .then(() => this.readNewRecords(now));
+    return this.reading;
+  }
+
+  // 保持期間にかかる月のファイルから、前回読んだ位置より後ろの行だけを読む
+  private async readNewRecords(now: number) {
+    const filePath = this.options.filePath;
+    if (!filePath) {
+      this.prune(now);
+      return;
+    }
+    const initial = !this.removedExpired;
+    if (initial) {
+      this.removedExpired = true;
+      await this.removeExpiredFiles(filePath, now);
+    }
+
+    let added = 0;
+    for (const month of monthsBetween(now - RETENTION_MS, now)) {
+      const monthPath = monthlyLogPath(filePath, month);
+      const offset = this.offsets.get(monthPath) ?? 0;
+      let handle: fs.FileHandle;
+      try {
+        handle = await fs.open(monthPath, "r");
+      } catch (error: any) {
+        if (error?.code === "ENOENT") {
+          continue;
+        }
+        throw error;
+      }
+      try {
+        const { size } = await handle.stat();
+        if (size <= offset) {
+          continue;
+        }
+        const buffer = Buffer.alloc(size - offset);
+        await handle.read(buffer, 0, buffer.length, offset);
+        // 書き込み途中の最後の行は次の読み込みに回す
+        const end = buffer.lastIndexOf(0x0a) + 1;
+        for (const line of buffer
+          .subarray(0, end)
+          .toString("utf-8")
+          .split("\n")) {
+          if (!line.trim()) {
+            continue;
+          }
+          try {
+            this.records.push(JSON.parse(line));
+            added++;
+          } catch {
+            console.error(
+              `⚠️ 使用量の記録の壊れた行を無視します (${monthPath})`
+            );
+          }
+        }
+        this.offsets.set(monthPath, offset + end);
+      } finally {
+        await handle.close();
+      }
+    }
+    this.prune(now);
+    if (initial && added > 0) {
+      console.error(
+        `💰 使用量の記録を読み込み: ${this.records.length}件 (${filePath})`
+      );
+    }
+  }
+
+  // 保持期間より前の月のファイルを消す（起動後の最初の読み込みで1回だけ）
+  private async removeExpiredFiles(filePath: string, now: number) {
+    const { dir, name, ext } = path.parse(filePath);
+    const oldest = monthKey(now - RETENTION_MS);
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        console.error("⚠️ 使用量の記録の整理に失敗:", error);
+      }
+      return;
+    }
+    for (const file of files) {
+      const month =
+        file.startsWith(`${name}-`) && file.endsWith(ext)
+          ? file.slice(name.length + 1, file.length - ext.length)
+          : null;
+      if (month && /^\d{4}-\d{2}$/.test(month) && month < oldest) {
+        await fs.rm(path.join(dir, file), { force: true });
+      }
+    }
+  }
+
+  // 1件1行で追記する（複数のプロセスが同じファイルに書いても行が混ざらない大きさ）
+  private append(record: UsageRecord): Promise<void> {
+    const filePath = this.options.filePath;
+    if (!filePath) {
+      this.records.push(record);
+      return Promise.resolve();
+    }
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.appendFile(
+          monthlyLogPath(filePath, monthKey(record.at)),
+          `${JSON.stringify(record)}\n`
+        );
+      });
+    return this.writing;
+  }
+}
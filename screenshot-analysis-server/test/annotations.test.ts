@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { relocateAnnotations } from "../src/annotations.js";
+
+test("枠の移動と拡大に合わせて注釈を動かし、半径や大きさも同じ比率で変える", () => {
+  const from = { x: 0, y: 0, width: 20, height: 10 };
+  const to = { x: 100, y: 100, width: 40, height: 20 };
+
+  const relocated = relocateAnnotations(
+    [
+      { type: "circle", center: { x: 10, y: 5 }, radius: 6 },
+      { type: "point", at: { x: 20, y: 10 }, style: "dot" },
+      { type: "arrow", from: { x: 10, y: 5 }, to: { x: 300, y: 300 } },
+      { type: "spotlight", rect: { x: 0, y: 0, width: 20, height: 10 } },
+    ],
+    from,
+    to
+  );
+
+  assert.deepEqual(relocated, [
+    { type: "circle", center: { x: 120, y: 110 }, radius: 12 },
+    { type: "point", at: { x: 140, y: 120 }, style: "dot" },
+    // ドラッグの行き先は動かさない
+    { type: "arrow", from: { x: 120, y: 110 }, to: { x: 300, y: 300 } },
+    { type: "spotlight", rect: { x: 100, y: 100, width: 40, height: 20 } },
+  ]);
+});
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  ApiError,
+  CircuitBreakerOptions,
+  ResilientApiClient,
+} from "../src/apiClient.js";
+import { sleep } from "../src/progress.js";
+import { FakeProvider, FakeScriptEntry } from "../src/providers/fake.js";
+import { VisionRequest } from "../src/providers/index.js";
+
+const request: VisionRequest = {
+  system: "テスト",
+  messages: [{ role: "user", content: [{ type: "text", text: "質問" }] }],
+  maxTokens: 100,
+};
+
+// 待機を短くしたクライアントと、呼び出し回数を数えるフェイクプロバイダー
+function clientWith(
+  script: FakeScriptEntry[],
+  breakerOptions: Partial<CircuitBreakerOptions> = {}
+) {
+  const provider = new FakeProvider(script);
+  let calls = 0;
+  const complete = provider.complete.bind(provider);
+  provider.complete = (request) => {
+    calls++;
+    return complete(request);
+  };
+  const client = new ResilientApiClient(
+    provider,
+    { baseDelayMs: 1, maxDelayMs: 50 },
+    breakerOptions
+  );
+  return { client, calls: () => calls };
+}
+
+test("529 のあとは再試行して応答を返す", async () => {
+  const { client, calls } = clientWith([
+    { status: 529, retry_after: "0" },
+    { text: "成功" },
+  ]);
+
+  const response = await client.complete(request);
+
+  assert.equal(response.text, "成功");
+  assert.equal(calls(), 2);
+});
+
+test("再試行しても 5xx が続けば overloaded / server_error で失敗する", async () => {
+  const { client, calls } = clientWith([
+    { status: 529 },
+    { status: 503 },
+    { status: 529 },
+    { status: 503 },
+  ]);
+
+  await assert.rejects(client.complete(request), (error: unknown) => {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.errorCode, "server_error");
+    return true;
+  });
+  assert.equal(calls(), 4);
+});
+
+test("待機の上限を超える Retry-After は待たずに retry_after_ms を返す", async () => {
+  const { client, calls } = clientWith([
+    { status: 529, retry_after: "60" },
+    { text: "使われない" },
+  ]);
+
+  await assert.rejects(client.complete(request), (error: unknown) => {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.errorCode, "overloaded");
+    assert.ok((error.retryAfterMs ?? 0) > 50_000);
+    return true;
+  });
+  assert.equal(calls(), 1);
+});
+
+test("4xx は再試行しない", async () => {
+  const { client, calls } = clientWith([
+    { status: 400 },
+    { text: "使われない" },
+  ]);
+
+  await assert.rejects(client.complete(request), ApiError);
+  assert.equal(calls(), 1);
+});
+
+test("ハーフオープン中に締め切り切れで終わった呼び出しはブレーカーを止めたままにしない", async () => {
+  const { client, calls } = clientWith([{ status: 503 }, { text: "復旧" }], {
+    failureThreshold: 1,
+    cooldownMs: 100,
+  });
+
+  // 冷却時間は再試行の待機の上限より長いので、最初の呼び出しはブレーカーが開いたまま失敗する
+  await assert.rejects(client.complete(request), ApiError);
+  await sleep(150);
+  await assert.rejects(
+    client.complete(request, { deadlineAt: Date.now() - 1 }),
+    (error: unknown) => {
+      assert.ok(error instanceof ApiError);
+      assert.equal(error.errorCode, "deadline_exceeded");
+      return true;
+    }
+  );
+
+  const response = await client.complete(request);
+  assert.equal(response.text, "復旧");
+  assert.equal(calls(), 2);
+});
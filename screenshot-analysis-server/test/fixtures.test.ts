@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import { FakeProvider } from "../src/providers/fake.js";
+import {
+  RecordingProvider,
+  ReplayProvider,
+} from "../src/providers/fixtures.js";
+import { ProviderHttpError, VisionRequest } from "../src/providers/index.js";
+
+const request: VisionRequest = {
+  system: "テスト",
+  messages: [
+    {
+      role: "user",
+      content: [
+        { type: "image", image: { mediaType: "image/png", data: "aGVsbG8=" } },
+        { type: "text", text: "質問" },
+      ],
+    },
+  ],
+  maxTokens: 100,
+};
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "fixtures-test-"));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test("記録した応答とエラーを同じ順に再生する", async () => {
+  const recording = new RecordingProvider(
+    new FakeProvider([{ status: 529, retry_after: "1" }, { text: "応答" }]),
+    dir
+  );
+  await assert.rejects(recording.complete(request), ProviderHttpError);
+  // 保存するのはJSONにした応答（undefined のフィールドは落ちる）
+  const recorded = JSON.parse(
+    JSON.stringify(await recording.complete(request))
+  );
+
+  // 画像はハッシュに置き換えて保存する
+  const [file] = await fs.readdir(dir);
+  const content = await fs.readFile(path.join(dir, file), "utf-8");
+  assert.ok(!content.includes("aGVsbG8="));
+
+  const replay = new ReplayProvider(dir);
+  await assert.rejects(replay.complete(request), (error: any) => {
+    assert.equal(error.response.status, 529);
+    assert.equal(error.response.headers["retry-after"], "1");
+    return true;
+  });
+  assert.deepEqual(await replay.complete(request), recorded);
+  // 使い切ったら最後の結果を繰り返す
+  assert.deepEqual(await replay.complete(request), recorded);
+});
+
+test("フィクスチャの無いリクエストは 404 になる", async () => {
+  const replay = new ReplayProvider(dir);
+
+  await assert.rejects(
+    replay.complete({ ...request, system: "記録していない" }),
+    (error: any) => {
+      assert.ok(error instanceof ProviderHttpError);
+      assert.equal(error.response.status, 404);
+      return true;
+    }
+  );
+});
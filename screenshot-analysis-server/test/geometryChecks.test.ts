@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { singleDisplayLayout } from "../src/coordinateMapping.js";
+import { checkStepGeometry } from "../src/geometryChecks.js";
+import { TutorialStep } from "../src/types.js";
+
+const layout = singleDisplayLayout({
+  screenWidth: 1000,
+  screenHeight: 800,
+  scaleFactor: 2,
+});
+
+function step(id: string, text: string, x: number): TutorialStep {
+  return {
+    id,
+    text,
+    x,
+    y: 100,
+    width: 100,
+    height: 40,
+    description: "",
+    order: 1,
+    action: { kind: "click" },
+    precondition: "",
+    expected_result: "",
+    annotations: [],
+  };
+}
+
+function check(steps: TutorialStep[]) {
+  return checkStepGeometry(steps, layout, (step, rect) => ({
+    ...step,
+    ...rect,
+  }));
+}
+
+test("表記ゆれや言い換えの要素名で大きく重なる枠は重複として削除する", () => {
+  const { steps, adjustments } = check([
+    step("step_1", "Save", 100),
+    step("step_2", "save button", 105),
+    step("step_3", "SAVE!", 102),
+  ]);
+
+  assert.deepEqual(
+    steps.map((step) => step.id),
+    ["step_1"]
+  );
+  assert.deepEqual(
+    adjustments.map((adjustment) => [adjustment.step_id, adjustment.kind]),
+    [
+      ["step_2", "suppressed_overlap"],
+      ["step_3", "suppressed_overlap"],
+    ]
+  );
+});
+
+test("名前の違う要素は重なっていても残す", () => {
+  const { steps, adjustments } = check([
+    step("step_1", "保存", 100),
+    step("step_2", "キャンセル", 105),
+  ]);
+
+  assert.equal(steps.length, 2);
+  assert.deepEqual(adjustments, []);
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import sharp from "sharp";
+import { FakeScriptEntry } from "../src/providers/fake.js";
+import { startServer } from "./serverHarness.js";
+
+const ROUNDS = 3;
+
+// 解析のたびに物理 (15, 2) の枠を返し、検証ではずれなしと答える
+const SCRIPT: FakeScriptEntry[] = Array.from({ length: ROUNDS + 1 }).flatMap(
+  (): FakeScriptEntry[] => [
+    {
+      text: '{"message": "", "tutorial_steps": [{"text": "ファイル", "x": 15, "y": 2, "width": 40, "height": 20}]}',
+    },
+    {
+      when: "自己校正",
+      json: {
+        accuracy_score: 1,
+        position_offset: { x: 0, y: 0 },
+        size_correction: { width: 0, height: 0 },
+        feedback: "正確です",
+      },
+    },
+  ]
+);
+
+// 論理 100x50 ポイント、スケール2の画面
+const SCREEN = { screen_width: 100, screen_height: 50, scale_factor: 2 };
+
+// メニューバーで右に10ずれる傾向を学習済み
+const SEEDED_SAMPLES = Array.from({ length: 3 }, () => ({
+  dx: 10,
+  dy: 0,
+  dw: 0,
+  dh: 0,
+  score: 0.5,
+  recordedAt: Date.now(),
+}));
+
+let dir: string;
+let server: Awaited<ReturnType<typeof startServer>>;
+let imageData: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "corrections-test-"));
+  const storePath = path.join(dir, "learned-corrections.json");
+  await fs.writeFile(
+    storePath,
+    JSON.stringify({
+      version: 1,
+      entries: { "100x50@2|menu_bar|*": SEEDED_SAMPLES },
+    })
+  );
+  const image = await sharp({
+    create: { width: 200, height: 100, channels: 3, background: "#ffffff" },
+  })
+    .png()
+    .toBuffer();
+  imageData = image.toString("base64");
+  server = await startServer(dir, SCRIPT, {
+    LEARNED_CORRECTIONS_PATH: storePath,
+  });
+});
+
+after(async () => {
+  await server?.client.close();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function analyze() {
+  const analysis = await server.callTool("analyze_screenshot", {
+    image_data: imageData,
+    question: "ファイルメニューはどこ？",
+    ...SCREEN,
+  });
+  assert.equal(analysis.success, true);
+  return analysis.tutorial_steps[0];
+}
+
+test("補正済みの枠がずれなしと検証され続けても、学習済み補正は縮まない", async () => {
+  for (let round = 0; round < ROUNDS; round++) {
+    const step = await analyze();
+    assert.equal(step.x, 17.5);
+    assert.equal(step.learned_correction.dx, 10);
+
+    const verification = await server.callTool("verify_overlay_accuracy", {
+      image_data: imageData,
+      original_prediction: step,
+      ...SCREEN,
+    });
+    assert.equal(verification.success, true);
+    assert.equal(verification.learning.recorded, true);
+  }
+
+  const step = await analyze();
+  assert.equal(step.x, 17.5);
+  assert.equal(step.learned_correction.dx, 10);
+  assert.equal(step.learned_correction.samples, 3 + ROUNDS);
+});
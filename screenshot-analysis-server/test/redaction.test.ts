@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import sharp from "sharp";
+import { singleDisplayLayout } from "../src/coordinateMapping.js";
+import {
+  loadRedactionOptions,
+  RedactionMethod,
+  redactImage,
+} from "../src/redaction.js";
+
+// 論理 100x50 ポイント、スケール2の画面（画像は 200x100 ピクセル）
+const layout = singleDisplayLayout({
+  screenWidth: 100,
+  screenHeight: 50,
+  scaleFactor: 2,
+});
+const WIDTH = 200;
+const HEIGHT = 100;
+
+// 2x2 ピクセルの白黒の市松模様（ぼかすと灰色になる）
+function checkerboard(): Buffer {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT * 3);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const value = ((x >> 1) + (y >> 1)) % 2 === 0 ? 255 : 0;
+      pixels.fill(value, (y * WIDTH + x) * 3, (y * WIDTH + x + 1) * 3);
+    }
+  }
+  return pixels;
+}
+
+async function redactCheckerboard(method: RedactionMethod) {
+  const original = checkerboard();
+  const png = await sharp(original, {
+    raw: { width: WIDTH, height: HEIGHT, channels: 3 },
+  })
+    .png()
+    .toBuffer();
+  const result = await redactImage(
+    png.toString("base64"),
+    layout,
+    [{ x: 10, y: 10, width: 20, height: 10, label: "secret" }],
+    {
+      method,
+      zones: [
+        {
+          name: "corner",
+          anchor: "bottom_right",
+          x: 0,
+          y: 0,
+          width: 10,
+          height: 10,
+        },
+      ],
+      detectPasswordFields: false,
+    }
+  );
+  const redacted = await sharp(Buffer.from(result.imageData, "base64"))
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+  return { original, redacted, redactions: result.redactions };
+}
+
+// 隠した領域（画像のピクセル）: 呼び出し元の (20, 20) 40x20 と右下の (180, 80) 20x20
+function insideRedaction(x: number, y: number): boolean {
+  return (
+    (x >= 20 && x < 60 && y >= 20 && y < 40) ||
+    (x >= 180 && x < 200 && y >= 80 && y < 100)
+  );
+}
+
+function pixelsWhere(
+  image: Buffer,
+  inside: boolean
+): { index: number; value: number }[] {
+  const values: { index: number; value: number }[] = [];
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      if (insideRedaction(x, y) === inside) {
+        const index = (y * WIDTH + x) * 3;
+        values.push({ index, value: image[index] });
+      }
+    }
+  }
+  return values;
+}
+
+function assertRedactions(
+  redactions: Awaited<ReturnType<typeof redactCheckerboard>>["redactions"],
+  method: RedactionMethod
+) {
+  assert.deepEqual(redactions, [
+    {
+      source: "caller",
+      label: "secret",
+      rect: { x: 10, y: 10, width: 20, height: 10 },
+      method,
+    },
+    {
+      source: "zone",
+      label: "corner",
+      rect: { x: 90, y: 40, width: 10, height: 10 },
+      method,
+    },
+  ]);
+}
+
+test("fill は指定した領域だけを黒く塗り、論理座標の領域を返す", async () => {
+  const { original, redacted, redactions } = await redactCheckerboard("fill");
+
+  assertRedactions(redactions, "fill");
+  assert.ok(pixelsWhere(redacted, true).every(({ value }) => value === 0));
+  assert.ok(
+    pixelsWhere(redacted, false).every(
+      ({ index, value }) => value === original[index]
+    )
+  );
+});
+
+test("blur は指定した領域の模様を消し、それ以外は変えない", async () => {
+  const { original, redacted, redactions } = await redactCheckerboard("blur");
+
+  assertRedactions(redactions, "blur");
+  // 白黒の市松模様は、ぼかすと中間の灰色にならされる
+  assert.ok(
+    pixelsWhere(redacted, true).every(({ value }) => value > 64 && value < 192)
+  );
+  assert.ok(
+    pixelsWhere(redacted, false).every(
+      ({ index, value }) => value === original[index]
+    )
+  );
+});
+
+test("解釈できない REDACTION_ZONES は無視せずエラーにする", () => {
+  assert.throws(
+    () => loadRedactionOptions({ REDACTION_ZONES: "[{" }),
+    /REDACTION_ZONES/
+  );
+  assert.throws(
+    () => loadRedactionOptions({ REDACTION_ZONES: "menu_bar_clok" }),
+    /REDACTION_ZONES/
+  );
+});
+
+test("REDACTION_DETECT_PASSWORDS は on / true / 1 で有効になる", () => {
+  for (const value of ["on", "true", "1", "TRUE"]) {
+    assert.equal(
+      loadRedactionOptions({ REDACTION_DETECT_PASSWORDS: value })
+        .detectPasswordFields,
+      true
+    );
+  }
+  for (const value of [undefined, "off", "false", "0"]) {
+    assert.equal(
+      loadRedactionOptions({ REDACTION_DETECT_PASSWORDS: value })
+        .detectPasswordFields,
+      false
+    );
+  }
+  assert.throws(
+    () => loadRedactionOptions({ REDACTION_DETECT_PASSWORDS: "enabled" }),
+    /REDACTION_DETECT_PASSWORDS/
+  );
+});
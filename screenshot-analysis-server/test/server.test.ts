@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import sharp from "sharp";
+import { FakeScriptEntry } from "../src/providers/fake.js";
+import { startServer } from "./serverHarness.js";
+
+// README の例と同じ台本（529 → 壊れたJSON → +15 を含む回答、自己校正の回答）
+const SCRIPT: FakeScriptEntry[] = [
+  { status: 529, retry_after: "1" },
+  { text: "JSONではない応答" },
+  {
+    when: "自己校正",
+    json: {
+      accuracy_score: 0.9,
+      position_offset: { x: 0, y: 0 },
+      size_correction: { width: 0, height: 0 },
+      feedback: "正確です",
+    },
+  },
+  {
+    text: '{"message": "", "tutorial_steps": [{"text": "ファイル", "x": +15, "y": 2, "width": 40, "height": 20}]}',
+  },
+];
+
+// 論理 100x50 ポイント、スケール2の画面
+const SCREEN = { screen_width: 100, screen_height: 50, scale_factor: 2 };
+
+let dir: string;
+let server: Awaited<ReturnType<typeof startServer>>;
+let imageData: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "server-test-"));
+  const image = await sharp({
+    create: { width: 200, height: 100, channels: 3, background: "#ffffff" },
+  })
+    .png()
+    .toBuffer();
+  imageData = image.toString("base64");
+  server = await startServer(dir, SCRIPT);
+});
+
+after(async () => {
+  await server?.client.close();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test("analyze_screenshot は再試行・再質問を経て枠を論理座標で返し、verify_overlay_accuracy で検証できる", async () => {
+  const analysis = await server.callTool("analyze_screenshot", {
+    image_data: imageData,
+    question: "ファイルメニューはどこ？",
+    ...SCREEN,
+  });
+
+  assert.equal(analysis.success, true);
+  assert.equal(analysis.tutorial_steps.length, 1);
+  const [step] = analysis.tutorial_steps;
+  assert.equal(step.text, "ファイル");
+  assert.deepEqual(
+    { x: step.x, y: step.y, width: step.width, height: step.height },
+    { x: 7.5, y: 1, width: 20, height: 10 }
+  );
+
+  const verification = await server.callTool("verify_overlay_accuracy", {
+    image_data: imageData,
+    original_prediction: step,
+    ...SCREEN,
+  });
+
+  assert.equal(verification.success, true);
+  assert.equal(verification.verification_result.accuracy_score, 0.9);
+  assert.equal(verification.learning.recorded, false);
+});
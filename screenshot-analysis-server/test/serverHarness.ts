@@ -0,0 +1,59 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { FakeScriptEntry } from "../src/providers/fake.js";
+
+const root = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+
+// フェイクプロバイダーで動くサーバーを子プロセスで起動し、MCPクライアントで接続する
+export async function startServer(
+  dir: string,
+  script: FakeScriptEntry[],
+  env: Record<string, string> = {}
+) {
+  const scriptPath = path.join(dir, "script.json");
+  await fs.writeFile(scriptPath, JSON.stringify(script));
+
+  // 既定では記録を残さない
+  const childEnv: Record<string, string> = {};
+  for (const [key, value] of Object.entries({
+    ...process.env,
+    VISION_PROVIDER: "fake",
+    VISION_FAKE_SCRIPT: scriptPath,
+    LEARNED_CORRECTIONS_PATH: "off",
+    USAGE_LOG_PATH: "off",
+    ANALYSIS_CACHE: "off",
+    ...env,
+  })) {
+    if (value !== undefined) {
+      childEnv[key] = value;
+    }
+  }
+  const client = new Client(
+    { name: "server-test", version: "1.0.0" },
+    { capabilities: {} }
+  );
+  await client.connect(
+    new StdioClientTransport({
+      command: process.execPath,
+      args: [
+        "--import",
+        import.meta.resolve("tsx"),
+        path.join(root, "src", "index.ts"),
+      ],
+      env: childEnv,
+      stderr: "ignore",
+    })
+  );
+
+  return {
+    client,
+    async callTool(name: string, args: Record<string, unknown> = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      const [content] = result.content as { type: string; text: string }[];
+      return JSON.parse(content.text);
+    },
+  };
+}
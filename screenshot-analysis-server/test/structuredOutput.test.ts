@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { FakeProvider } from "../src/providers/fake.js";
+import { VisionRequest } from "../src/providers/index.js";
+import { analysisResultSpec } from "../src/schemas.js";
+import {
+  extractJsonCandidate,
+  requestStructured,
+  StructuredOutputError,
+} from "../src/structuredOutput.js";
+
+const request: VisionRequest = {
+  system: "テスト",
+  messages: [{ role: "user", content: [{ type: "text", text: "質問" }] }],
+  maxTokens: 100,
+};
+
+const validResult = {
+  message: "見つかりました",
+  tutorial_steps: [{ text: "ファイル", x: 10, y: 2, width: 40, height: 20 }],
+};
+
+test("壊れたJSONにはエラーを添えて再質問し、直った回答を使う", async () => {
+  const provider = new FakeProvider([
+    { text: "JSONではない応答" },
+    { json: validResult },
+  ]);
+  const requests: VisionRequest[] = [];
+
+  const { value, attempts } = await requestStructured(
+    (request) => {
+      requests.push(request);
+      return provider.complete(request);
+    },
+    request,
+    analysisResultSpec
+  );
+
+  assert.equal(attempts, 2);
+  assert.equal(value.tutorial_steps[0].x, 10);
+  const repair = requests[1].messages[requests[1].messages.length - 1];
+  assert.equal(repair.role, "user");
+  assert.match(
+    repair.content[0].type === "text" ? repair.content[0].text : "",
+    /JSON解析エラー/
+  );
+});
+
+test("再質問しても直らなければ StructuredOutputError になる", async () => {
+  const provider = new FakeProvider([
+    { text: "1回目" },
+    { text: "2回目" },
+    { text: "3回目" },
+  ]);
+
+  await assert.rejects(
+    requestStructured(
+      (request) => provider.complete(request),
+      request,
+      analysisResultSpec,
+      2
+    ),
+    StructuredOutputError
+  );
+});
+
+test("+15 のような符号付き数値を読み、文字列の中の + は残す", () => {
+  const parsed = extractJsonCandidate(
+    '回答です: {"text": "Cmd+1 (+15%)", "x": +15, "y": -2, "values": [+1, +2.5]}'
+  );
+
+  assert.deepEqual(parsed, {
+    text: "Cmd+1 (+15%)",
+    x: 15,
+    y: -2,
+    values: [1, 2.5],
+  });
+});
+
+test("+15 を含む回答はスキーマ検証を通る", async () => {
+  const provider = new FakeProvider([
+    {
+      text: '{"message": "", "tutorial_steps": [{"text": "ファイル", "x": +15, "y": 2, "width": 40, "height": 20}]}',
+    },
+  ]);
+
+  const { value, attempts } = await requestStructured(
+    (request) => provider.complete(request),
+    request,
+    analysisResultSpec
+  );
+
+  assert.equal(attempts, 1);
+  assert.equal(value.tutorial_steps[0].x, 15);
+});
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import { ApiError } from "../src/apiClient.js";
+import { VisionRequest } from "../src/providers/index.js";
+import { UsageTracker } from "../src/usageTracking.js";
+
+const request: VisionRequest = {
+  system: "テスト",
+  messages: [{ role: "user", content: [{ type: "text", text: "質問" }] }],
+  maxTokens: 100,
+};
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "usage-test-"));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+// 入力1トークンを$1として数える料金表で、1日$3の予算
+function trackerAt(filePath: string | null) {
+  return new UsageTracker({
+    filePath,
+    pricing: { "test-model": { input: 1_000_000, output: 0 } },
+    budget: { dailyUsd: 3, monthlyUsd: null },
+  });
+}
+
+function spend(tracker: UsageTracker, usd: number) {
+  return tracker.record({
+    tool: "analyze_screenshot",
+    session: "test",
+    provider: "fake",
+    request,
+    response: {
+      text: "",
+      model: "test-model",
+      usage: { inputTokens: usd, outputTokens: 0 },
+    },
+    latencyMs: 1,
+  });
+}
+
+test("別のプロセスが同じファイルに記録した使用額も予算に数える", async () => {
+  const filePath = path.join(dir, "shared", "usage.jsonl");
+  const first = trackerAt(filePath);
+  const second = trackerAt(filePath);
+
+  await spend(first, 2);
+  await second.assertWithinBudget();
+  await spend(second, 1);
+
+  await assert.rejects(first.assertWithinBudget(), (error: unknown) => {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.errorCode, "budget_exceeded");
+    return true;
+  });
+  const stats = await first.stats(1);
+  assert.equal(stats.totals.calls, 2);
+  assert.equal(stats.totals.cost_usd, 3);
+});
+
+test("同時に始まった呼び出しは見込み額を確保し、予算を超えて通さない", async () => {
+  const tracker = trackerAt(null);
+  await spend(tracker, 1);
+
+  // 残り$2、見込み額は直近の平均の$1なので、2件までしか通らない
+  const results = await Promise.allSettled([
+    tracker.reserve(),
+    tracker.reserve(),
+    tracker.reserve(),
+  ]);
+  assert.deepEqual(
+    results.map((result) => result.status),
+    ["fulfilled", "fulfilled", "rejected"]
+  );
+
+  // 解放すれば次の呼び出しを通す
+  const [release] = results.flatMap((result) =>
+    result.status === "fulfilled" ? [result.value] : []
+  );
+  release();
+  release();
+  const next = await tracker.reserve();
+  next();
+});